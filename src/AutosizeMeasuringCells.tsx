@@ -0,0 +1,182 @@
+import { css } from 'ecij';
+
+import { RowSelectionContext, type RowSelectionContextValue } from './hooks';
+import { floor, getCellClassname } from './utils';
+import type { AutosizeColumnsOptions, CalculatedColumn, Maybe, SortColumn } from './types';
+import { headerRowClassname } from './HeaderRow';
+
+const autosizeMeasuringCells = css`
+  @layer rdg.MeasuringCell {
+    position: absolute;
+    inset-block-start: 0;
+    inset-inline-start: 0;
+    inline-size: 0;
+    block-size: 0;
+    overflow: hidden;
+    visibility: hidden;
+    contain: strict;
+    pointer-events: none;
+  }
+`;
+
+// cells are measured at their max-content width, regardless of the width of their column
+const measuringCellStyle: React.CSSProperties = { inlineSize: 'max-content' };
+
+// the checkboxes of the select column have the same width whether they are checked or not
+const rowSelectionValue: RowSelectionContextValue = {
+  isRowSelected: false,
+  isRowSelectionDisabled: false
+};
+
+function noop() {}
+
+interface AutosizeMeasuringCellsProps<R, SR> {
+  columns: readonly CalculatedColumn<R, SR>[];
+  rows: readonly R[];
+  rowOverscanStartIdx: number;
+  rowOverscanEndIdx: number;
+  sortColumns: Maybe<readonly SortColumn[]>;
+  options: AutosizeColumnsOptions;
+}
+
+/**
+ * Renders hidden copies of the header and row cells of the columns to autosize.
+ * The cells are rendered at their max-content width so they can be measured individually,
+ * including rows that are not rendered in the viewport.
+ * The cells must be rendered within the same contexts as the header and row cells.
+ */
+export default function AutosizeMeasuringCells<R, SR>({
+  columns,
+  rows,
+  rowOverscanStartIdx,
+  rowOverscanEndIdx,
+  sortColumns,
+  options
+}: AutosizeMeasuringCellsProps<R, SR>) {
+  const rowIdxs = getSampleRowIdxs(
+    rows.length,
+    rowOverscanStartIdx,
+    rowOverscanEndIdx,
+    options.sampleSize ?? 100
+  );
+
+  return (
+    <div className={autosizeMeasuringCells}>
+      {options.includeHeader !== false && (
+        <div className={headerRowClassname}>
+          {columns.map((column) => (
+            <AutosizeMeasuringHeaderCell
+              key={column.key}
+              column={column}
+              sortColumns={sortColumns}
+            />
+          ))}
+        </div>
+      )}
+      {rowIdxs.map((rowIdx) => {
+        const row = rows[rowIdx];
+
+        return columns.map((column) => (
+          <AutosizeMeasuringCell
+            key={`${rowIdx}-${column.key}`}
+            column={column}
+            row={row}
+            rowIdx={rowIdx}
+          />
+        ));
+      })}
+    </div>
+  );
+}
+
+interface AutosizeMeasuringHeaderCellProps<R, SR> {
+  column: CalculatedColumn<R, SR>;
+  sortColumns: Maybe<readonly SortColumn[]>;
+}
+
+// render functions may use hooks so each cell is rendered in its own component
+function AutosizeMeasuringHeaderCell<R, SR>({
+  column,
+  sortColumns
+}: AutosizeMeasuringHeaderCellProps<R, SR>) {
+  const sortIndex = sortColumns?.findIndex((sort) => sort.columnKey === column.key) ?? -1;
+  const sortColumn = sortIndex === -1 ? undefined : sortColumns![sortIndex];
+
+  return (
+    <div
+      className={getCellClassname(column, column.headerCellClass)}
+      style={measuringCellStyle}
+      data-autosize-cell-key={column.key}
+    >
+      {column.renderHeaderCell({
+        column,
+        sortDirection: sortColumn?.direction,
+        priority: sortColumn !== undefined && sortColumns!.length > 1 ? sortIndex + 1 : undefined,
+        tabIndex: -1
+      })}
+    </div>
+  );
+}
+
+interface AutosizeMeasuringCellProps<R, SR> {
+  column: CalculatedColumn<R, SR>;
+  row: R;
+  rowIdx: number;
+}
+
+// render functions may use hooks so each cell is rendered in its own component
+function AutosizeMeasuringCell<R, SR>({ column, row, rowIdx }: AutosizeMeasuringCellProps<R, SR>) {
+  const { cellClass } = column;
+
+  return (
+    <div
+      className={getCellClassname(
+        column,
+        typeof cellClass === 'function' ? cellClass(row) : cellClass
+      )}
+      style={measuringCellStyle}
+      data-autosize-cell-key={column.key}
+    >
+      <RowSelectionContext value={rowSelectionValue}>
+        {column.renderCell({
+          column,
+          row,
+          rowIdx,
+          isCellEditable: false,
+          tabIndex: -1,
+          onRowChange: noop
+        })}
+      </RowSelectionContext>
+    </div>
+  );
+}
+
+/**
+ * Returns the indexes of the rendered rows,
+ * and of `sampleSize` rows evenly spread over all the rows
+ */
+function getSampleRowIdxs(
+  rowsCount: number,
+  rowOverscanStartIdx: number,
+  rowOverscanEndIdx: number,
+  sampleSize: number
+): number[] {
+  const rowIdxs = new Set<number>();
+
+  for (let rowIdx = rowOverscanStartIdx; rowIdx <= rowOverscanEndIdx; rowIdx++) {
+    rowIdxs.add(rowIdx);
+  }
+
+  if (sampleSize >= rowsCount) {
+    for (let rowIdx = 0; rowIdx < rowsCount; rowIdx++) {
+      rowIdxs.add(rowIdx);
+    }
+  } else if (sampleSize > 0) {
+    const step = rowsCount / sampleSize;
+    for (let i = 0; i < sampleSize; i++) {
+      rowIdxs.add(floor(i * step));
+    }
+  }
+
+  return [...rowIdxs];
+}
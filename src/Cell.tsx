@@ -2,8 +2,14 @@ import { memo, type MouseEvent } from 'react';
 import { css } from 'ecij';
 
 import { useRovingTabIndex } from './hooks';
-import { createCellEvent, getCellClassname, getCellStyle, isCellEditableUtil } from './utils';
-import type { CellMouseEventHandler, CellRendererProps } from './types';
+import {
+  classnames,
+  createCellEvent,
+  getCellClassname,
+  getCellStyle,
+  isCellEditableUtil
+} from './utils';
+import type { CellMouseEventHandler, CellRange, CellRendererProps } from './types';
 
 const cellDraggedOver = css`
   @layer rdg.Cell {
@@ -13,15 +19,83 @@ const cellDraggedOver = css`
 
 const cellDraggedOverClassname = `rdg-cell-dragged-over ${cellDraggedOver}`;
 
+const cellRange = css`
+  @layer rdg.Cell {
+    background-color: var(--rdg-cell-range-background-color);
+
+    /* we render the outline in a pseudo element so it can be drawn on specific edges only */
+    &::after {
+      content: '';
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+      border: 0 solid var(--rdg-selection-color);
+    }
+  }
+`;
+
+const cellRangeClassname = `rdg-cell-range ${cellRange}`;
+
+const cellRangeTopClassname = css`
+  @layer rdg.Cell {
+    &::after {
+      border-block-start-width: var(--rdg-selection-width);
+    }
+  }
+`;
+
+const cellRangeBottomClassname = css`
+  @layer rdg.Cell {
+    &::after {
+      border-block-end-width: var(--rdg-selection-width);
+    }
+  }
+`;
+
+const cellRangeStartClassname = css`
+  @layer rdg.Cell {
+    &::after {
+      border-inline-start-width: var(--rdg-selection-width);
+    }
+  }
+`;
+
+const cellRangeEndClassname = css`
+  @layer rdg.Cell {
+    &::after {
+      border-inline-end-width: var(--rdg-selection-width);
+    }
+  }
+`;
+
+function getCellRangeClassname(
+  range: CellRange | undefined,
+  idx: number,
+  rowIdx: number,
+  colSpan = 1
+) {
+  if (range === undefined) return undefined;
+
+  return classnames(
+    cellRangeClassname,
+    rowIdx === range.startRowIdx && cellRangeTopClassname,
+    rowIdx === range.endRowIdx && cellRangeBottomClassname,
+    idx <= range.startIdx && cellRangeStartClassname,
+    idx + colSpan - 1 >= range.endIdx && cellRangeEndClassname
+  );
+}
+
 function Cell<R, SR>({
   column,
   colSpan,
   isCellActive,
   isDraggedOver,
+  selectedCellRange,
   row,
   rowIdx,
   className,
   onMouseDown,
+  onMouseEnter,
   onCellMouseDown,
   onClick,
   onCellClick,
@@ -31,6 +105,7 @@ function Cell<R, SR>({
   onCellContextMenu,
   onRowChange,
   setActivePosition,
+  selectCellRange,
   style,
   ...props
 }: CellRendererProps<R, SR>) {
@@ -40,6 +115,7 @@ function Cell<R, SR>({
   className = getCellClassname(
     column,
     isDraggedOver && cellDraggedOverClassname,
+    getCellRangeClassname(selectedCellRange, column.idx, rowIdx, colSpan),
     typeof cellClass === 'function' ? cellClass(row) : cellClass,
     className
   );
@@ -64,12 +140,27 @@ function Cell<R, SR>({
 
   function handleMouseDown(event: MouseEvent<HTMLDivElement>) {
     onMouseDown?.(event);
-    if (!handleMouseEvent(event, onCellMouseDown)) {
+    if (handleMouseEvent(event, onCellMouseDown)) return;
+
+    if (event.shiftKey && selectCellRange) {
+      // extend the selected range instead of moving the active cell,
+      // preventing the default behavior keeps the focus on the active cell and avoids selecting text
+      event.preventDefault();
+      selectCellRange({ rowIdx, idx: column.idx });
+    } else {
       // select cell if the event is not prevented
       setActivePositionWrapper();
     }
   }
 
+  function handleMouseEnter(event: MouseEvent<HTMLDivElement>) {
+    onMouseEnter?.(event);
+    // extend the selected range while the primary button is pressed
+    if (selectCellRange && event.buttons === 1) {
+      selectCellRange({ rowIdx, idx: column.idx });
+    }
+  }
+
   function handleClick(event: MouseEvent<HTMLDivElement>) {
     onClick?.(event);
     handleMouseEvent(event, onCellClick);
@@ -107,6 +198,7 @@ function Cell<R, SR>({
       }}
       onClick={handleClick}
       onMouseDown={handleMouseDown}
+      onMouseEnter={handleMouseEnter}
       onDoubleClick={handleDoubleClick}
       onContextMenu={handleContextMenu}
       onFocus={onFocus}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { css } from 'ecij';
+
+import { classnames, isColumnHidden } from './utils';
+import type { Column, ColumnOrColumnGroup, Maybe } from './types';
+import { ROW_DRAG_COLUMN_KEY, SELECT_COLUMN_KEY } from './Columns';
+
+const columnChooser = css`
+  @layer rdg.ColumnChooser {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+
+    & ul {
+      margin: 0;
+      padding-inline-start: 0;
+      list-style: none;
+    }
+
+    & ul ul {
+      padding-inline-start: 20px;
+    }
+
+    & label {
+      display: flex;
+      gap: 4px;
+      align-items: center;
+    }
+  }
+`;
+
+const columnChooserClassname = `rdg-column-chooser ${columnChooser}`;
+
+export interface ColumnChooserProps<R, SR> {
+  /** The columns of the grid */
+  columns: readonly ColumnOrColumnGroup<R, SR>[];
+  /** Keys of the hidden columns, the `hidden` column option is used when not set */
+  hiddenColumns?: Maybe<ReadonlySet<string>>;
+  /** Callback triggered when columns are shown or hidden */
+  onHiddenColumnsChange: (hiddenColumns: Set<string>) => void;
+  className?: string | undefined;
+}
+
+/**
+ * Checkbox list to show and hide columns, with a search input.
+ * Checking a column group shows or hides all its columns
+ */
+export function ColumnChooser<R, SR = unknown>({
+  columns,
+  hiddenColumns,
+  onHiddenColumnsChange,
+  className
+}: ColumnChooserProps<R, SR>) {
+  const [searchText, setSearchText] = useState('');
+  const visibleItems = filterColumns(columns, searchText.trim().toLocaleLowerCase());
+
+  function getHiddenColumns() {
+    if (hiddenColumns != null) return new Set(hiddenColumns);
+    const keys = new Set<string>();
+    for (const column of getLeafColumns(columns)) {
+      if (column.hidden === true) {
+        keys.add(column.key);
+      }
+    }
+    return keys;
+  }
+
+  function setColumnsHidden(columns: readonly Column<R, SR>[], hidden: boolean) {
+    const newHiddenColumns = getHiddenColumns();
+    for (const { key } of columns) {
+      if (hidden) {
+        newHiddenColumns.add(key);
+      } else {
+        newHiddenColumns.delete(key);
+      }
+    }
+    onHiddenColumnsChange(newHiddenColumns);
+  }
+
+  function renderItems(items: readonly ColumnOrColumnGroup<R, SR>[]) {
+    return (
+      <ul>
+        {items.map((item, index) => {
+          const leafColumns = getLeafColumns([item]);
+          const hiddenCount = leafColumns.filter((column) =>
+            isColumnHidden(column, hiddenColumns)
+          ).length;
+
+          return (
+            <li key={'children' in item ? index : item.key}>
+              <label>
+                <input
+                  ref={(el) => {
+                    if (el) {
+                      el.indeterminate = hiddenCount > 0 && hiddenCount < leafColumns.length;
+                    }
+                  }}
+                  type="checkbox"
+                  checked={hiddenCount === 0}
+                  onChange={(event) => setColumnsHidden(leafColumns, !event.target.checked)}
+                />
+                {getColumnLabel(item)}
+              </label>
+              {'children' in item && renderItems(item.children)}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <div className={classnames(columnChooserClassname, className)}>
+      <input
+        type="search"
+        aria-label="Search columns"
+        placeholder="Search"
+        value={searchText}
+        onChange={(event) => setSearchText(event.target.value)}
+      />
+      {renderItems(visibleItems)}
+    </div>
+  );
+}
+
+function getColumnLabel<R, SR>(column: ColumnOrColumnGroup<R, SR>) {
+  if (typeof column.name === 'string') return column.name;
+  return 'children' in column ? '' : column.key;
+}
+
+// the select and row drag columns cannot be hidden
+function isBuiltInColumn<R, SR>(column: Column<R, SR>) {
+  return column.key === SELECT_COLUMN_KEY || column.key === ROW_DRAG_COLUMN_KEY;
+}
+
+function getLeafColumns<R, SR>(columns: readonly ColumnOrColumnGroup<R, SR>[]): Column<R, SR>[] {
+  return columns.flatMap((column) => {
+    if ('children' in column) return getLeafColumns(column.children);
+    return isBuiltInColumn(column) ? [] : [column];
+  });
+}
+
+// a group matching the search text is listed with all its columns
+function filterColumns<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  searchText: string
+): ColumnOrColumnGroup<R, SR>[] {
+  const items: ColumnOrColumnGroup<R, SR>[] = [];
+
+  for (const column of columns) {
+    if (!('children' in column) && isBuiltInColumn(column)) continue;
+
+    if (getColumnLabel(column).toLocaleLowerCase().includes(searchText)) {
+      items.push(
+        'children' in column ? { ...column, children: filterColumns(column.children, '') } : column
+      );
+    } else if ('children' in column) {
+      const children = filterColumns(column.children, searchText);
+      if (children.length > 0) {
+        items.push({ ...column, children });
+      }
+    }
+  }
+
+  return items;
+}
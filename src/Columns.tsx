@@ -1,9 +1,26 @@
-import { useHeaderRowSelection, useRowSelection } from './hooks';
+import { css } from 'ecij';
+
+import { useHeaderRowSelection, useRowDragStart, useRowSelection } from './hooks';
 import type { Column, RenderCellProps, RenderGroupCellProps, RenderHeaderCellProps } from './types';
 import { SelectCellFormatter } from './cellRenderers';
 
 export const SELECT_COLUMN_KEY = 'rdg-select-column';
 
+export const ROW_DRAG_COLUMN_KEY = 'rdg-row-drag-column';
+
+const rowDragHandle = css`
+  @layer rdg.RowDragHandle {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    block-size: 100%;
+    cursor: grab;
+    fill: currentColor;
+  }
+`;
+
+const rowDragHandleClassname = `rdg-row-drag-handle ${rowDragHandle}`;
+
 function HeaderRenderer({ tabIndex }: RenderHeaderCellProps<unknown>) {
   const { isIndeterminate, isRowSelected, onRowSelectionChange } = useHeaderRowSelection();
 
@@ -71,3 +88,42 @@ export const SelectColumn: Column<any, any> = {
     return <SelectGroupFormatter {...props} />;
   }
 };
+
+function RowDragHandle({ rowIdx }: RenderCellProps<unknown>) {
+  const onRowDragStart = useRowDragStart();
+
+  return (
+    <div
+      className={rowDragHandleClassname}
+      draggable
+      onDragStart={(event) => {
+        onRowDragStart(event, rowIdx);
+      }}
+    >
+      <svg viewBox="0 0 8 14" width="8" height="14" aria-hidden>
+        <circle cx="2" cy="2" r="1.25" />
+        <circle cx="6" cy="2" r="1.25" />
+        <circle cx="2" cy="7" r="1.25" />
+        <circle cx="6" cy="7" r="1.25" />
+        <circle cx="2" cy="12" r="1.25" />
+        <circle cx="6" cy="12" r="1.25" />
+      </svg>
+    </div>
+  );
+}
+
+/** Renders a drag handle in each row, used to reorder the rows with `onRowsReorder` */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const RowDragColumn: Column<any, any> = {
+  key: ROW_DRAG_COLUMN_KEY,
+  name: '',
+  width: 35,
+  minWidth: 35,
+  maxWidth: 35,
+  resizable: false,
+  sortable: false,
+  frozen: true,
+  renderCell(props) {
+    return <RowDragHandle {...props} />;
+  }
+};
@@ -5,11 +5,14 @@ import { flushSync } from 'react-dom';
 import {
   HeaderRowSelectionChangeContext,
   HeaderRowSelectionContext,
+  RowDragStartContext,
   RowSelectionChangeContext,
   useActivePosition,
   useCalculatedColumns,
   useColumnWidths,
   useGridDimensions,
+  useGridHistory,
+  useHeaderRowHeights,
   useLatestFunc,
   useScrollState,
   useScrollToPosition,
@@ -20,24 +23,57 @@ import {
   type PartialPosition
 } from './hooks';
 import {
+  applyColumnOrder,
   assertIsValidKeyGetter,
   canExitGrid,
   classnames,
   createCellEvent,
+  createFillSeries,
+  findColumn,
+  findSearchMatch,
   focusCell,
+  getCellChanges,
+  getCellClipboardText,
   getCellStyle,
+  getCellValue,
   getCellToScroll,
+  getCellRange,
+  getClipboardValues,
+  getCellRangeHead,
   getColSpan,
+  getColumnDropPosition,
+  getColumnSpan,
+  getFillDirection,
+  getFillTargetRange,
   getLeftRightKey,
   getNextActivePosition,
+  getSiblingColumn,
   isCellEditableUtil,
   isCtrlKeyHeldDown,
+  isCellRangeInBounds,
   isDefaultCellInput,
+  isRowInCellRange,
+  isSameCellRange,
+  isSingleCellRange,
+  max,
+  min,
+  parseRowsDragData,
+  pinRows,
   renderMeasuringCells,
-  scrollIntoView
+  reorderColumns,
+  ROWS_DRAG_MIME_TYPE,
+  scrollIntoView,
+  serializeToHTML,
+  setCellClipboardText,
+  serializeToTSV,
+  sortRows,
+  unsortRowsChange
 } from './utils';
 import type {
+  Announcement,
+  AutosizeColumnsOptions,
   CalculatedColumn,
+  CalculatedColumnOrColumnGroup,
   CellClipboardEvent,
   CellCopyArgs,
   CellKeyboardEvent,
@@ -45,41 +81,62 @@ import type {
   CellMouseEventHandler,
   CellNavigationMode,
   CellPasteArgs,
+  CellRange,
   PositionChangeArgs,
   Column,
   ColumnOrColumnGroup,
   ColumnWidths,
   Direction,
   FillEvent,
+  Filters,
   Maybe,
   Position,
   Renderers,
   RowsChangeData,
+  RowsChangeSource,
+  RowsDragData,
+  RowsDropEvent,
   SetActivePositionOptions,
   SelectHeaderRowEvent,
   SelectRowEvent,
   SortColumn
 } from './types';
+import AutosizeMeasuringCells from './AutosizeMeasuringCells';
 import { defaultRenderCell } from './Cell';
 import { renderCheckbox as defaultRenderCheckbox } from './cellRenderers';
+import { getColumnType } from './columnTypes';
 import {
   DataGridDefaultRenderersContext,
   useDefaultRenderers
 } from './DataGridDefaultRenderersContext';
 import EditCell from './EditCell';
+import FilterRow from './FilterRow';
 import GroupedColumnHeaderRow from './GroupedColumnHeaderRow';
-import HeaderRow from './HeaderRow';
+import HeaderMeasuringCells from './HeaderMeasuringCells';
+import HeaderRow, { autoHeightHeaderRowsClassname } from './HeaderRow';
+import { default as defaultRenderAnnouncement } from './renderAnnouncement';
 import { defaultRenderRow } from './Row';
+import { SearchTextContext } from './SearchTextContext';
 import { default as defaultRenderSortStatus } from './sortStatus';
 import { cellDragHandleClassname, cellDragHandleFrozenClassname } from './style/cell';
 import {
   rootClassname,
   frozenColumnShadowClassname,
+  frozenEndColumnShadowClassname,
+  frozenEndColumnShadowTopClassname,
   viewportDraggingClassname,
-  frozenColumnShadowTopClassname
+  frozenColumnShadowTopClassname,
+  liveRegionClassname
 } from './style/core';
+import { pinnedRowClassname, rowDraggingClassname, rowDropIndicatorClassname } from './style/row';
 import SummaryRow from './SummaryRow';
 
+const emptyFilters: Filters = new Map();
+
+// the grid scrolls by a step while the dragged rows are near the edges of the scrolled rows
+const rowDragAutoScrollSize = 35;
+const rowDragAutoScrollStep = 20;
+
 export type DefaultColumnOptions<R, SR> = Pick<
   Column<R, SR>,
   | 'renderCell'
@@ -89,6 +146,7 @@ export type DefaultColumnOptions<R, SR> = Pick<
   | 'maxWidth'
   | 'resizable'
   | 'sortable'
+  | 'sortCycle'
   | 'draggable'
 >;
 
@@ -96,6 +154,15 @@ export interface DataGridHandle {
   element: HTMLDivElement | null;
   scrollToCell: (position: PartialPosition) => void;
   setActivePosition: (position: Position, options?: SetActivePositionOptions) => void;
+  /** Moves the active position to the next cell matching `searchText`, returns `false` if no cell matches */
+  findNext: () => boolean;
+  /** Moves the active position to the previous cell matching `searchText`, returns `false` if no cell matches */
+  findPrevious: () => boolean;
+  /** Fits the columns to their content, all the columns are autosized when `keys` is not set */
+  autosizeColumns: (
+    keys?: Maybe<readonly string[]>,
+    options?: Maybe<AutosizeColumnsOptions>
+  ) => void;
 }
 
 type SharedDivProps = Pick<
@@ -126,6 +193,13 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
   bottomSummaryRows?: Maybe<readonly SR[]>;
   /** Function to return a unique key/identifier for each row */
   rowKeyGetter?: Maybe<(row: NoInfer<R>) => K>;
+  /**
+   * Keys of the rows pinned at the top of the grid, in display order.
+   * Pinned rows stay visible while the other rows scroll, `rowKeyGetter` is required to pin rows
+   */
+  topPinnedRowKeys?: Maybe<readonly K[]>;
+  /** Keys of the rows pinned at the bottom of the grid, in display order */
+  bottomPinnedRowKeys?: Maybe<readonly K[]>;
   /** Callback triggered when rows are changed */
   onRowsChange?: Maybe<(rows: NoInfer<R>[], data: RowsChangeData<NoInfer<R>, NoInfer<SR>>) => void>;
 
@@ -138,10 +212,11 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
    */
   rowHeight?: Maybe<number | ((row: NoInfer<R>) => number)>;
   /**
-   * Height of the header row in pixels
+   * Height of the header rows in pixels,
+   * `'auto'` sizes each column header row to its wrapped content, with the default height as the minimum height
    * @default 35
    */
-  headerRowHeight?: Maybe<number>;
+  headerRowHeight?: Maybe<number | 'auto'>;
   /**
    * Height of each summary row in pixels
    * @default 35
@@ -151,6 +226,26 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
   columnWidths?: Maybe<ColumnWidths>;
   /** Callback triggered when column widths change */
   onColumnWidthsChange?: Maybe<(columnWidths: ColumnWidths) => void>;
+  /** Autosizes all the columns when the grid is mounted, options can be passed to configure the autosizing */
+  autosizeOnMount?: Maybe<boolean | AutosizeColumnsOptions>;
+  /**
+   * Keys of the hidden columns, the `hidden` column option is used when not set.
+   * Hidden columns keep their width in `columnWidths`.
+   * There is no `onHiddenColumnsChange` prop as the grid never shows or hides columns itself,
+   * the hidden columns are changed by the `ColumnChooser` component or by the application
+   */
+  hiddenColumns?: Maybe<ReadonlySet<string>>;
+  /**
+   * Keys of the columns in display order. Columns missing from the list are displayed after the other columns.
+   * Column groups are displayed at the position of their first column
+   */
+  columnOrder?: Maybe<readonly string[]>;
+  /** Callback triggered when columns or column groups are reordered by dragging their header cell */
+  onColumnOrderChange?: Maybe<(columnOrder: string[]) => void>;
+  /** A set of collapsed column group ids, only the `collapsedColumns` of collapsed column groups are displayed */
+  collapsedColumnGroups?: Maybe<ReadonlySet<string>>;
+  /** Callback triggered when a column group is collapsed or expanded using its header cell */
+  onCollapsedColumnGroupsChange?: Maybe<(collapsedColumnGroups: Set<string>) => void>;
 
   /**
    * Feature props
@@ -161,10 +256,33 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
   isRowSelectionDisabled?: Maybe<(row: NoInfer<R>) => boolean>;
   /** Callback triggered when the selection changes */
   onSelectedRowsChange?: Maybe<(selectedRows: Set<NoInfer<K>>) => void>;
+  /** The selected range of cells, anchored at the active cell */
+  selectedCellRange?: Maybe<CellRange>;
+  /**
+   * Callback triggered when the selected cell range changes.
+   * When set, Shift+Arrow keys, Shift+click and mouse-drag select a range of cells
+   */
+  onSelectedCellRangeChange?: Maybe<(selectedCellRange: CellRange | null) => void>;
   /** An array of sorted columns */
   sortColumns?: Maybe<readonly SortColumn[]>;
   /** Callback triggered when sorting changes */
   onSortColumnsChange?: Maybe<(sortColumns: SortColumn[]) => void>;
+  /**
+   * When sorting a column adds it to the sorted columns instead of replacing them:
+   * with Ctrl/Meta held down (`'modifier'`), always (`'always'`), or never (`'never'`)
+   * @default 'modifier'
+   */
+  multiSortMode?: Maybe<'modifier' | 'always' | 'never'>;
+  /** Maximum number of sorted columns, the columns sorted first are removed when the limit is exceeded */
+  maxSortColumns?: Maybe<number>;
+  /** The filter values by column key, edited in the filter row */
+  filters?: Maybe<Filters>;
+  /** Callback triggered when a filter is changed in the filter row */
+  onFiltersChange?: Maybe<(filters: Filters) => void>;
+  /** The rows before filtering, used to list the values of facet filters, defaults to `rows` */
+  unfilteredRows?: Maybe<readonly R[]>;
+  /** Text to search in the cells, the matches are highlighted by the default cell renderer */
+  searchText?: Maybe<string>;
   /** Default options applied to all columns */
   defaultColumnOptions?: Maybe<DefaultColumnOptions<NoInfer<R>, NoInfer<SR>>>;
 
@@ -183,7 +301,11 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
   onCellKeyDown?: Maybe<
     (args: CellKeyDownArgs<NoInfer<R>, NoInfer<SR>>, event: CellKeyboardEvent) => void
   >;
-  /** Callback triggered when a cell's content is copied */
+  /**
+   * Callback triggered when a cell's content is copied.
+   * The grid then copies the selected cell range, or the active cell, to the clipboard,
+   * unless the default behavior of the event is prevented
+   */
   onCellCopy?: Maybe<
     (args: CellCopyArgs<NoInfer<R>, NoInfer<SR>>, event: CellClipboardEvent) => void
   >;
@@ -191,19 +313,80 @@ export interface DataGridProps<R, SR = unknown, K extends Key = Key> extends Sha
   onCellPaste?: Maybe<
     (args: CellPasteArgs<NoInfer<R>, NoInfer<SR>>, event: CellClipboardEvent) => NoInfer<R>
   >;
+  /**
+   * Paste the clipboard content across the rows and columns starting at the active cell, when `onCellPaste` is not set
+   * @default false
+   */
+  enableRangePaste?: Maybe<boolean>;
+  /**
+   * Clear the editable cells of the selected cell range when pressing Delete
+   * @default false
+   */
+  enableRangeClear?: Maybe<boolean>;
+  /** Function called to create new rows when the pasted content extends past the last row */
+  createPastedRow?: Maybe<() => NoInfer<R>>;
   /** Function called whenever the active position is changed */
   onActivePositionChange?: Maybe<(args: PositionChangeArgs<NoInfer<R>, NoInfer<SR>>) => void>;
   /** Callback triggered when column is resized */
   onColumnResize?: Maybe<(column: CalculatedColumn<R, SR>, width: number) => void>;
   /** Callback triggered when columns are reordered */
   onColumnsReorder?: Maybe<(sourceColumnKey: string, targetColumnKey: string) => void>;
+  /**
+   * Callback triggered when rows are dragged with the handle of `RowDragColumn`, or moved with Alt+ArrowUp/ArrowDown.
+   * `fromIndexes` are the sorted indexes of the moved rows in `rows`,
+   * `toIndex` is the index in `rows` where the moved rows are inserted, before they are removed
+   */
+  onRowsReorder?: Maybe<(fromIndexes: readonly number[], toIndex: number) => void>;
+  /**
+   * Callback triggered when rows dragged from another grid, or from an element setting the `ROWS_DRAG_MIME_TYPE` data, are dropped on the grid.
+   * Setting this prop makes the grid a drop target
+   */
+  onRowsDrop?: Maybe<(event: RowsDropEvent) => void>;
+  /** Function called while rows are dragged over the grid, return `false` to prevent dropping the rows at `toIndex` */
+  canDropRows?: Maybe<(toIndex: number) => boolean>;
+  /**
+   * Sets the rows dragged with `RowDragColumn` as JSON on the drag events with the `ROWS_DRAG_MIME_TYPE` type,
+   * so they can be dropped on other grids or elements
+   * @default false
+   */
+  enableRowsDragOut?: Maybe<boolean>;
+  /**
+   * Callback triggered for each target cell when cells are filled using the drag handle.
+   * The drag handle fills the selected cell range, or the active cell, vertically or horizontally
+   */
   onFill?: Maybe<(event: FillEvent<NoInfer<R>>) => NoInfer<R>>;
+  /**
+   * Callback triggered when Ctrl+F is pressed in the grid, instead of opening the browser find.
+   * Also enables F3 and Shift+F3 to move to the next and previous cells matching `searchText`
+   */
+  onOpenSearch?: Maybe<() => void>;
 
   /**
    * Toggles and modes
    */
   /** @default true */
   enableVirtualization?: Maybe<boolean>;
+  /**
+   * Record the changes made with the grid, so they can be undone with Ctrl+Z, and redone with Ctrl+Shift+Z or Ctrl+Y
+   * @default false
+   */
+  enableHistory?: Maybe<boolean>;
+  /**
+   * Detect series like 1, 2, 3 or "Item 1", "Item 2" when filling cells, instead of repeating the source values
+   * @default false
+   */
+  enableFillSeries?: Maybe<boolean>;
+  /**
+   * Sort the rows by `sortColumns` inside the grid, using the column `comparator` or by comparing cell values.
+   * Row indexes refer to the sorted rows, except in `onRowsChange` where they refer to the `rows` prop
+   * @default false
+   */
+  enableInternalSorting?: Maybe<boolean>;
+  /**
+   * Render a filter row under the header row, with the filters of the columns
+   * @default false
+   */
+  enableFilterRow?: Maybe<boolean>;
 
   /**
    * Miscellaneous
@@ -235,10 +418,12 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     ref,
     // Grid and data Props
     columns: rawColumns,
-    rows,
+    rows: rawRows,
     topSummaryRows,
     bottomSummaryRows,
     rowKeyGetter,
+    topPinnedRowKeys,
+    bottomPinnedRowKeys,
     onRowsChange,
     // Dimensions props
     rowHeight: rawRowHeight,
@@ -246,12 +431,26 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     summaryRowHeight: rawSummaryRowHeight,
     columnWidths: columnWidthsRaw,
     onColumnWidthsChange: onColumnWidthsChangeRaw,
+    autosizeOnMount,
+    hiddenColumns,
+    columnOrder,
+    onColumnOrderChange,
+    collapsedColumnGroups,
+    onCollapsedColumnGroupsChange,
     // Feature props
     selectedRows,
     isRowSelectionDisabled,
     onSelectedRowsChange,
-    sortColumns,
+    selectedCellRange: rawSelectedCellRange,
+    onSelectedCellRangeChange,
+    sortColumns: rawSortColumns,
     onSortColumnsChange,
+    multiSortMode,
+    maxSortColumns,
+    filters,
+    onFiltersChange,
+    unfilteredRows,
+    searchText,
     defaultColumnOptions,
     // Event props
     onCellMouseDown,
@@ -263,11 +462,23 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     onScroll,
     onColumnResize,
     onColumnsReorder,
+    onRowsReorder,
+    onRowsDrop,
+    canDropRows,
+    enableRowsDragOut,
     onFill,
+    onOpenSearch,
     onCellCopy,
     onCellPaste,
+    enableRangePaste,
+    enableRangeClear,
+    createPastedRow,
     // Toggles and modes
     enableVirtualization: rawEnableVirtualization,
+    enableHistory,
+    enableFillSeries,
+    enableInternalSorting,
+    enableFilterRow,
     // Miscellaneous
     renderers,
     className,
@@ -292,7 +503,10 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
   const defaultRenderers = useDefaultRenderers<R, SR>();
   const role = rawRole ?? 'grid';
   const rowHeight = rawRowHeight ?? 35;
-  const headerRowHeight = rawHeaderRowHeight ?? (typeof rowHeight === 'number' ? rowHeight : 35);
+  const isHeaderRowHeightAuto = rawHeaderRowHeight === 'auto';
+  const headerRowHeight =
+    (isHeaderRowHeightAuto ? undefined : rawHeaderRowHeight) ??
+    (typeof rowHeight === 'number' ? rowHeight : 35);
   const summaryRowHeight = rawSummaryRowHeight ?? (typeof rowHeight === 'number' ? rowHeight : 35);
   const renderRow = renderers?.renderRow ?? defaultRenderers?.renderRow ?? defaultRenderRow;
   const renderCell = renderers?.renderCell ?? defaultRenderers?.renderCell ?? defaultRenderCell;
@@ -301,6 +515,11 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
   const renderCheckbox =
     renderers?.renderCheckbox ?? defaultRenderers?.renderCheckbox ?? defaultRenderCheckbox;
   const noRowsFallback = renderers?.noRowsFallback ?? defaultRenderers?.noRowsFallback;
+  const renderAnnouncement =
+    renderers?.renderAnnouncement ??
+    defaultRenderers?.renderAnnouncement ??
+    defaultRenderAnnouncement;
+  const columnTypes = renderers?.columnTypes ?? defaultRenderers?.columnTypes;
   const enableVirtualization = rawEnableVirtualization ?? true;
   const direction = rawDirection ?? 'ltr';
 
@@ -314,13 +533,22 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
    */
   const { scrollTop, scrollLeft } = useScrollState(gridRef);
   const [gridWidth, gridHeight] = useGridDimensions(gridRef);
+  const { headerRowHeights: measuredHeaderRowHeights, observeMeasuringCell } =
+    useHeaderRowHeights();
   const [columnWidthsInternal, setColumnWidthsInternal] = useState(
     (): ColumnWidths => columnWidthsRaw ?? new Map()
   );
   const [isColumnResizing, setIsColumnResizing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [draggedOverRowIdx, setDraggedOverRowIdx] = useState<number | undefined>(undefined);
+  const [draggedColumn, setDraggedColumn] = useState<CalculatedColumnOrColumnGroup<R, SR>>();
+  const [draggedRowIdxs, setDraggedRowIdxs] = useState<readonly number[]>();
+  const [rowDropIdx, setRowDropIdx] = useState<number>();
+  const [draggedOverCellRange, setDraggedOverCellRange] = useState<CellRange | undefined>(
+    undefined
+  );
   const [previousRowIdx, setPreviousRowIdx] = useState(-1);
+  // messages for assistive technologies, rendered in a live region
+  const [announcement, setAnnouncement] = useState<Announcement<R, SR>>();
 
   const isColumnWidthsControlled =
     columnWidthsRaw != null && onColumnWidthsChangeRaw != null && !isColumnResizing;
@@ -344,44 +572,105 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     columns,
     colSpanColumns,
     lastFrozenColumnIndex,
-    headerRowsCount,
+    firstEndFrozenColumnIndex,
+    headerRowsCount: columnHeaderRowsCount,
     colOverscanStartIdx,
     colOverscanEndIdx,
     templateColumns,
     layoutCssVars,
-    totalFrozenColumnWidth
+    totalFrozenColumnWidth,
+    totalEndFrozenColumnWidth,
+    columnMetrics
   } = useCalculatedColumns({
     rawColumns,
+    columnOrder,
+    collapsedColumnGroups,
+    canCollapseColumnGroups: onCollapsedColumnGroupsChange != null,
+    hiddenColumns,
     defaultColumnOptions,
+    columnTypes,
     getColumnWidth,
     scrollLeft,
     viewportWidth: gridWidth,
     enableVirtualization
   });
 
+  // controlled sort columns exceeding the limit are also limited
+  const sortColumns = useMemo(
+    () =>
+      rawSortColumns == null ? rawSortColumns : limitSortColumns(rawSortColumns, maxSortColumns),
+    [rawSortColumns, maxSortColumns]
+  );
+
+  const sortedRows = useMemo((): readonly R[] => {
+    if (enableInternalSorting !== true || sortColumns == null || sortColumns.length === 0) {
+      return rawRows;
+    }
+    // hidden and collapsed columns are not calculated, so the sorted columns are resolved
+    // from the raw columns, with the comparison options of their type
+    const sortedColumns: Column<R, SR>[] = [];
+    for (const { columnKey } of sortColumns) {
+      const column = findColumn(rawColumns, columnKey);
+      if (column === undefined) continue;
+      sortedColumns.push(
+        column.type == null || column.compareValues != null
+          ? column
+          : { ...column, compareValues: getColumnType(column.type, columnTypes)?.compareValues }
+      );
+    }
+    return sortRows(rawRows, sortColumns, sortedColumns);
+  }, [enableInternalSorting, rawRows, sortColumns, rawColumns, columnTypes]);
+
+  // pinned rows are moved to the start and the end of the rows, and rendered as sticky rows
+  const { rows, topPinnedRowsCount, bottomPinnedRowsCount } = useMemo(() => {
+    if (typeof rowKeyGetter !== 'function') {
+      return { rows: sortedRows, topPinnedRowsCount: 0, bottomPinnedRowsCount: 0 };
+    }
+    return pinRows(sortedRows, rowKeyGetter, topPinnedRowKeys, bottomPinnedRowKeys);
+  }, [sortedRows, rowKeyGetter, topPinnedRowKeys, bottomPinnedRowKeys]);
+
+  // maps the sorted or pinned rows back to their index in `rows`
+  const rawRowIndexes = useMemo((): ReadonlyMap<R, number> | undefined => {
+    if (rows === rawRows) return undefined;
+    return new Map(rawRows.map((row, rowIdx) => [row, rowIdx]));
+  }, [rows, rawRows]);
+
   /**
    * computed values
    */
   const isTreeGrid = role === 'treegrid';
+  const filterRowsCount = enableFilterRow === true ? 1 : 0;
+  const headerRowsCount = columnHeaderRowsCount + filterRowsCount;
   const topSummaryRowsCount = topSummaryRows?.length ?? 0;
   const bottomSummaryRowsCount = bottomSummaryRows?.length ?? 0;
   const summaryRowsCount = topSummaryRowsCount + bottomSummaryRowsCount;
   const headerAndTopSummaryRowsCount = headerRowsCount + topSummaryRowsCount;
-  const groupedColumnHeaderRowsCount = headerRowsCount - 1;
+  const groupedColumnHeaderRowsCount = columnHeaderRowsCount - 1;
   const minRowIdx = -headerAndTopSummaryRowsCount;
   const maxRowIdx = rows.length + bottomSummaryRowsCount - 1;
   const mainHeaderRowIdx = minRowIdx + groupedColumnHeaderRowsCount;
   const maxColIdx = columns.length - 1;
-  const headerRowsHeight = headerRowsCount * headerRowHeight;
+  const headerRowHeights = Array.from({ length: headerRowsCount }, (_, rowIdx) =>
+    // the filter row keeps the default height
+    isHeaderRowHeightAuto && rowIdx < columnHeaderRowsCount
+      ? max(headerRowHeight, measuredHeaderRowHeights[rowIdx] ?? 0)
+      : headerRowHeight
+  );
+  const headerRowsHeight = headerRowHeights.reduce((total, height) => total + height, 0);
   const summaryRowsHeight = summaryRowsCount * summaryRowHeight;
   const clientHeight = gridHeight - headerRowsHeight - summaryRowsHeight;
   const isSelectable = selectedRows != null && onSelectedRowsChange != null;
+  const isCellRangeSelectable = onSelectedCellRangeChange != null;
   const { leftKey, rightKey } = getLeftRightKey(direction);
   const ariaRowCount = rawAriaRowCount ?? headerRowsCount + rows.length + summaryRowsCount;
   const frozenShadowStyles: React.CSSProperties = {
     gridColumnStart: lastFrozenColumnIndex + 2,
     insetInlineStart: totalFrozenColumnWidth
   };
+  const frozenEndShadowStyles: React.CSSProperties = {
+    gridColumnStart: firstEndFrozenColumnIndex + 1,
+    insetInlineEnd: totalEndFrozenColumnWidth
+  };
 
   const {
     activePosition,
@@ -402,9 +691,19 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     maxColIdx,
     minRowIdx,
     maxRowIdx,
-    setDraggedOverRowIdx
+    setDraggedOverCellRange
   });
   const { setScrollToPosition, scrollToPositionElement } = useScrollToPosition({ gridRef });
+  const { recordRowsChange, undo, redo } = useGridHistory<R, SR>(rows, rowKeyGetter, rawColumns);
+
+  // ignore ranges that are out of bounds, this can happen when a column or row is removed
+  const selectedCellRange =
+    isCellRangeSelectable &&
+    rawSelectedCellRange != null &&
+    activePositionIsCellInViewport &&
+    isCellRangeInBounds(rawSelectedCellRange, maxColIdx, rows.length)
+      ? rawSelectedCellRange
+      : null;
 
   const defaultGridComponents = useMemo(
     () => ({
@@ -454,6 +753,14 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     enableVirtualization
   });
 
+  const firstBottomPinnedRowIdx = rows.length - bottomPinnedRowsCount;
+  const topPinnedRowsHeight =
+    topPinnedRowsCount === 0
+      ? 0
+      : getRowTop(topPinnedRowsCount - 1) + getRowHeight(topPinnedRowsCount - 1);
+  const bottomPinnedRowsHeight =
+    bottomPinnedRowsCount === 0 ? 0 : totalRowHeight - getRowTop(firstBottomPinnedRowIdx);
+
   const {
     viewportColumns,
     iterateOverViewportColumnsForRow,
@@ -464,6 +771,7 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     colOverscanStartIdx,
     colOverscanEndIdx,
     lastFrozenColumnIndex,
+    firstEndFrozenColumnIndex,
     rowOverscanStartIdx,
     rowOverscanEndIdx,
     rows,
@@ -471,7 +779,13 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     bottomSummaryRows
   });
 
-  const { gridTemplateColumns, handleColumnResize } = useColumnWidths(
+  const {
+    gridTemplateColumns,
+    handleColumnResize,
+    columnsToAutosize,
+    autosizeOptions,
+    autosizeColumns
+  } = useColumnWidths(
     columns,
     viewportColumns,
     templateColumns,
@@ -480,7 +794,8 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     columnWidths,
     onColumnWidthsChange,
     onColumnResize,
-    setIsColumnResizing
+    setIsColumnResizing,
+    autosizeOnMount
   );
 
   /**
@@ -488,16 +803,31 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
    */
   const handleColumnResizeLatest = useLatestFunc(handleColumnResize);
   const handleColumnResizeEndLatest = useLatestFunc(handleColumnResizeEnd);
-  const onColumnsReorderLastest = useLatestFunc(onColumnsReorder);
-  const onSortColumnsChangeLatest = useLatestFunc(onSortColumnsChange);
+  const handleColumnDropLatest = useLatestFunc(handleColumnDrop);
+  const toggleColumnGroupLatest = useLatestFunc(toggleColumnGroup);
+  const handleColumnKeyboardResizeLatest = useLatestFunc(handleColumnKeyboardResize);
+  const moveColumnLatest = useLatestFunc(moveColumn);
+  const getDraggedColumnDropPosition = useCallback(
+    (target: CalculatedColumnOrColumnGroup<R, SR>) => {
+      if (draggedColumn === undefined) return undefined;
+      return getColumnDropPosition(columns, draggedColumn, target);
+    },
+    [columns, draggedColumn]
+  );
+  const onFiltersChangeLatest = useLatestFunc(onFiltersChange);
+  const onSortColumnsChangeLatest = useLatestFunc(
+    onSortColumnsChange == null ? undefined : handleSortColumnsChange
+  );
   const onCellMouseDownLatest = useLatestFunc(onCellMouseDown);
   const onCellClickLatest = useLatestFunc(onCellClick);
   const onCellDoubleClickLatest = useLatestFunc(onCellDoubleClick);
   const onCellContextMenuLatest = useLatestFunc(onCellContextMenu);
   const selectHeaderRowLatest = useLatestFunc(selectHeaderRow);
   const selectRowLatest = useLatestFunc(selectRow);
+  const handleRowDragStartLatest = useLatestFunc(handleRowDragStart);
   const handleFormatterRowChangeLatest = useLatestFunc(updateRow);
   const setPositionLatest = useLatestFunc(setPosition);
+  const selectCellRangeLatest = useLatestFunc(isCellRangeSelectable ? selectCellRange : undefined);
   const selectHeaderCellLatest = useLatestFunc(selectHeaderCell);
 
   /**
@@ -507,25 +837,36 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     ref,
     (): DataGridHandle => ({
       element: gridRef.current,
-      scrollToCell({ idx, rowIdx }) {
-        const scrollToIdx =
-          idx != null && idx > lastFrozenColumnIndex && idx < columns.length ? idx : undefined;
-        const scrollToRowIdx =
-          rowIdx != null && validatePosition({ idx: 0, rowIdx }).isPositionInViewport
-            ? rowIdx + headerAndTopSummaryRowsCount
-            : undefined;
-
-        if (scrollToIdx != null || scrollToRowIdx != null) {
-          setScrollToPosition({ idx: scrollToIdx, rowIdx: scrollToRowIdx });
-        }
-      },
-      setActivePosition: setPosition
+      scrollToCell,
+      setActivePosition: setPosition,
+      findNext: () => selectSearchMatch(false, false),
+      findPrevious: () => selectSearchMatch(true, false),
+      autosizeColumns
     })
   );
 
   /**
    * event handlers
    */
+  function scrollToCell({ idx, rowIdx }: PartialPosition) {
+    const scrollToIdx =
+      idx != null && idx > lastFrozenColumnIndex && idx < firstEndFrozenColumnIndex
+        ? idx
+        : undefined;
+    // pinned rows are always visible
+    const scrollToRowIdx =
+      rowIdx != null &&
+      rowIdx >= topPinnedRowsCount &&
+      rowIdx < firstBottomPinnedRowIdx &&
+      validatePosition({ idx: 0, rowIdx }).isPositionInViewport
+        ? rowIdx + headerAndTopSummaryRowsCount
+        : undefined;
+
+    if (scrollToIdx != null || scrollToRowIdx != null) {
+      setScrollToPosition({ idx: scrollToIdx, rowIdx: scrollToRowIdx });
+    }
+  }
+
   function selectHeaderRow(args: SelectHeaderRowEvent) {
     if (!onSelectedRowsChange) return;
 
@@ -612,6 +953,32 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
 
     if (!isCellEvent && !isRowEvent) return;
 
+    if (enableHistory && isCtrlKeyHeldDown(event)) {
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        restoreHistory(key === 'y' || event.shiftKey);
+        return;
+      }
+    }
+
+    if (handleFillKeyDown(event)) return;
+
+    if (
+      onRowsReorder != null &&
+      activePositionIsInViewport &&
+      event.altKey &&
+      !event.shiftKey &&
+      !isCtrlKeyHeldDown(event) &&
+      (event.key === 'ArrowUp' || event.key === 'ArrowDown')
+    ) {
+      event.preventDefault();
+      moveRow(rowIdx, event.key === 'ArrowUp' ? -1 : 1);
+      return;
+    }
+
+    if (onOpenSearch != null && handleSearchKeyDown(event)) return;
+
     switch (event.key) {
       case 'ArrowUp':
       case 'ArrowDown':
@@ -624,19 +991,121 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       case 'PageDown':
         navigate(event);
         break;
+      case 'Delete':
+        if (enableRangeClear === true && selectedCellRange !== null) {
+          clearCellRange(selectedCellRange);
+        } else {
+          handleCellInput(event);
+        }
+        break;
       default:
         handleCellInput(event);
         break;
     }
   }
 
-  function updateRow(column: CalculatedColumn<R, SR>, rowIdx: number, row: R) {
+  function handleSearchKeyDown(event: KeyboardEvent<HTMLDivElement>): boolean {
+    if (isCtrlKeyHeldDown(event) && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      onOpenSearch!();
+      return true;
+    }
+
+    if (event.key === 'F3') {
+      event.preventDefault();
+      selectSearchMatch(event.shiftKey, true);
+      return true;
+    }
+
+    return false;
+  }
+
+  function selectSearchMatch(isBackward: boolean, shouldFocus: boolean): boolean {
+    if (searchText == null) return false;
+    const position = findSearchMatch(
+      rows,
+      columns,
+      searchText,
+      activePositionIsInViewport ? activePosition : undefined,
+      isBackward
+    );
+    if (position === undefined) return false;
+    setPosition(position, { shouldFocus });
+    scrollToCell(position);
+    return true;
+  }
+
+  function handleSortColumnsChange(sortColumns: SortColumn[]) {
+    onSortColumnsChange!(limitSortColumns(sortColumns, maxSortColumns));
+  }
+
+  function handleRowsChange(
+    updatedRows: R[],
+    { indexes, column, source }: Omit<RowsChangeData<R, SR>, 'changes'>,
+    oldRows = indexes.map((rowIdx) => (rowIdx < rows.length ? rows[rowIdx] : undefined))
+  ) {
+    // the changes of hidden and collapsed columns are included
+    const changes = indexes.flatMap((rowIdx, i) =>
+      getCellChanges(rawColumns, rowKeyGetter, rowIdx, oldRows[i], updatedRows[rowIdx])
+    );
+
+    if (enableHistory && source !== 'undo' && source !== 'redo') {
+      recordRowsChange(updatedRows, indexes, oldRows, column);
+    }
+
+    if (rows === rawRows) {
+      onRowsChange!(updatedRows, { indexes, column, source, changes });
+      return;
+    }
+
+    // the rows are sorted internally, so the order of the `rows` prop is restored
+    const { rows: updatedRawRows, indexMap } = unsortRowsChange(
+      rawRows,
+      updatedRows,
+      indexes,
+      oldRows
+    );
+    onRowsChange!(updatedRawRows, {
+      indexes: indexes.map((rowIdx) => indexMap.get(rowIdx)!),
+      column,
+      source,
+      changes: changes.map((change) => ({ ...change, rowIdx: indexMap.get(change.rowIdx)! }))
+    });
+  }
+
+  function restoreHistory(isRedo: boolean) {
+    if (typeof onRowsChange !== 'function') return;
+    const restoredRows = isRedo ? redo() : undo();
+    if (restoredRows === undefined) return;
+    const { indexes, column, oldRows } = restoredRows;
+    handleRowsChange(
+      restoredRows.rows,
+      { indexes, column, source: isRedo ? 'redo' : 'undo' },
+      oldRows
+    );
+    if (indexes.length === 0) return;
+
+    // move the active position to the restored cell
+    const idx = columns.findIndex((c) => c.key === column.key);
+    if (idx === -1) return;
+    const position: Position = { idx, rowIdx: indexes[0] };
+    setPosition(position, { shouldFocus: true });
+    scrollToCell(position);
+  }
+
+  function updateRow(
+    column: CalculatedColumn<R, SR>,
+    rowIdx: number,
+    row: R,
+    source: RowsChangeSource = 'edit'
+  ) {
     if (typeof onRowsChange !== 'function') return;
     if (row === rows[rowIdx]) return;
     const updatedRows = rows.with(rowIdx, row);
-    onRowsChange(updatedRows, {
+    handleRowsChange(updatedRows, {
       indexes: [rowIdx],
-      column
+      column,
+      source
     });
   }
 
@@ -648,21 +1117,99 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
   function handleCellCopy(event: CellClipboardEvent) {
     if (!activePositionIsCellInViewport) return;
     onCellCopy?.({ row: getActiveRow(), column: getActiveColumn() }, event);
+
+    if (
+      event.defaultPrevented ||
+      activePosition.mode === 'EDIT' ||
+      // let the browser copy the highlighted text
+      window.getSelection()?.isCollapsed === false
+    ) {
+      return;
+    }
+
+    const { startIdx, startRowIdx, endIdx, endRowIdx } =
+      selectedCellRange ?? getCellRange(activePosition, activePosition);
+    const values: string[][] = [];
+    for (let rowIdx = startRowIdx; rowIdx <= endRowIdx; rowIdx++) {
+      const row = rows[rowIdx];
+      const rowValues: string[] = [];
+      for (let idx = startIdx; idx <= endIdx; idx++) {
+        rowValues.push(getCellClipboardText(columns[idx], row));
+      }
+      values.push(rowValues);
+    }
+
+    event.clipboardData.setData('text/plain', serializeToTSV(values));
+    event.clipboardData.setData('text/html', serializeToHTML(values));
+    event.preventDefault();
   }
 
   function handleCellPaste(event: CellClipboardEvent) {
+    if (typeof onRowsChange !== 'function') return;
+
+    if (typeof onCellPaste === 'function') {
+      if (!isCellEditable(activePosition)) return;
+      const column = getActiveColumn();
+      const row = getActiveRow();
+      const updatedRow = onCellPaste({ row, column }, event);
+      updateRow(column, activePosition.rowIdx, updatedRow, 'paste');
+      return;
+    }
+
     if (
-      typeof onCellPaste !== 'function' ||
-      typeof onRowsChange !== 'function' ||
-      !isCellEditable(activePosition)
+      enableRangePaste !== true ||
+      !activePositionIsCellInViewport ||
+      activePosition.mode === 'EDIT'
     ) {
       return;
     }
+    event.preventDefault();
+    updateCells(activePosition, getClipboardValues(event.clipboardData), 'paste');
+  }
 
-    const column = getActiveColumn();
-    const row = getActiveRow();
-    const updatedRow = onCellPaste({ row, column }, event);
-    updateRow(column, activePosition.rowIdx, updatedRow);
+  function clearCellRange({ startIdx, startRowIdx, endIdx, endRowIdx }: CellRange) {
+    if (typeof onRowsChange !== 'function') return;
+    const values = Array.from({ length: endRowIdx - startRowIdx + 1 }, () =>
+      Array.from({ length: endIdx - startIdx + 1 }, () => '')
+    );
+    updateCells({ idx: startIdx, rowIdx: startRowIdx }, values, 'clear');
+  }
+
+  /**
+   * Update the editable cells starting at the given position with the given text values,
+   * appending rows with `createPastedRow` if needed
+   */
+  function updateCells(
+    { idx: startIdx, rowIdx: startRowIdx }: Position,
+    values: readonly (readonly string[])[],
+    source: RowsChangeSource
+  ) {
+    const updatedRows = [...rows];
+    const indexes: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      const rowIdx = startRowIdx + i;
+      const isNewRow = rowIdx >= rows.length;
+      if (isNewRow && typeof createPastedRow !== 'function') break;
+      const originalRow = isNewRow ? createPastedRow!() : rows[rowIdx];
+      let row = originalRow;
+
+      const rowValues = values[i];
+      for (let j = 0; j < rowValues.length && startIdx + j <= maxColIdx; j++) {
+        const column = columns[startIdx + j];
+        if (isCellEditableUtil(column, originalRow)) {
+          row = setCellClipboardText(column, row, rowValues[j]);
+        }
+      }
+
+      if (isNewRow || row !== originalRow) {
+        updatedRows[rowIdx] = row;
+        indexes.push(rowIdx);
+      }
+    }
+
+    if (indexes.length > 0) {
+      handleRowsChange(updatedRows, { indexes, column: columns[startIdx], source });
+    }
   }
 
   function handleCellInput(event: KeyboardEvent<HTMLDivElement>) {
@@ -680,7 +1227,10 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       return;
     }
 
-    if (isCellEditable(activePosition) && isDefaultCellInput(event, onCellPaste != null)) {
+    if (
+      isCellEditable(activePosition) &&
+      isDefaultCellInput(event, onCellPaste != null || enableRangePaste === true)
+    ) {
       setActivePosition(({ idx, rowIdx }) => ({
         idx,
         rowIdx,
@@ -691,6 +1241,222 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     }
   }
 
+  function handleColumnDrop(
+    source: CalculatedColumnOrColumnGroup<R, SR>,
+    target: CalculatedColumnOrColumnGroup<R, SR>
+  ) {
+    if ('key' in source && 'key' in target) {
+      onColumnsReorder?.(source.key, target.key);
+    }
+    onColumnOrderChange?.(
+      reorderColumns(applyColumnOrder(rawColumns, columnOrder), columns, source, target)
+    );
+  }
+
+  function handleColumnKeyboardResize(column: CalculatedColumn<R, SR>, width: number) {
+    handleColumnResize(column, width);
+    // the latest function sees the resizing state set by handleColumnResize
+    handleColumnResizeEndLatest();
+    setAnnouncement({ type: 'columnResize', column, width });
+  }
+
+  function moveColumn(column: CalculatedColumnOrColumnGroup<R, SR>, offset: -1 | 1) {
+    // onColumnsReorder only supports moving columns
+    if (onColumnOrderChange == null && (onColumnsReorder == null || !('key' in column))) return;
+    const target = getSiblingColumn(columns, column, offset);
+    if (target === undefined || getColumnDropPosition(columns, column, target) === undefined) {
+      return;
+    }
+
+    handleColumnDrop(column, target);
+    // keep the moved column active
+    const idx = offset === 1 ? column.idx + getColumnSpan(target) : target.idx;
+    setPosition({ idx, rowIdx: activePosition.rowIdx });
+    setAnnouncement({
+      type: 'columnMove',
+      column,
+      position: idx + 1,
+      columnsCount: columns.length
+    });
+  }
+
+  /** The indexes passed to `onRowsReorder` and `onRowsDrop` refer to `rows`, not to the sorted or pinned rows */
+  function getRawRowIdx(rowIdx: number) {
+    if (rowIdx === rows.length) return rawRows.length;
+    return rawRowIndexes === undefined ? rowIdx : rawRowIndexes.get(rows[rowIdx])!;
+  }
+
+  function reorderRows(fromRowIdxs: readonly number[], toRowIdx: number) {
+    const fromIndexes = fromRowIdxs.map(getRawRowIdx).toSorted((a, b) => a - b);
+    const toIndex = getRawRowIdx(toRowIdx);
+    const isMoved =
+      toIndex < fromIndexes[0] ||
+      toIndex > fromIndexes.at(-1)! + 1 ||
+      fromIndexes.some((index, i) => index !== fromIndexes[0] + i);
+    if (isMoved) {
+      onRowsReorder!(fromIndexes, toIndex);
+    }
+  }
+
+  function moveRow(rowIdx: number, offset: -1 | 1) {
+    const targetRowIdx = rowIdx + offset;
+    // pinned rows keep their position
+    if (
+      rowIdx < topPinnedRowsCount ||
+      rowIdx >= firstBottomPinnedRowIdx ||
+      targetRowIdx < topPinnedRowsCount ||
+      targetRowIdx >= firstBottomPinnedRowIdx
+    ) {
+      return;
+    }
+
+    reorderRows([rowIdx], offset === 1 ? targetRowIdx + 1 : targetRowIdx);
+    // keep the moved row active
+    setPosition({ idx: activePosition.idx, rowIdx: targetRowIdx });
+    setAnnouncement({ type: 'rowMove', position: targetRowIdx + 1, rowsCount: rows.length });
+  }
+
+  function handleRowDragStart(event: React.DragEvent<HTMLDivElement>, rowIdx: number) {
+    const isRowsDragOutEnabled = enableRowsDragOut === true;
+    if (
+      (onRowsReorder == null && !isRowsDragOutEnabled) ||
+      rowIdx < topPinnedRowsCount ||
+      rowIdx >= firstBottomPinnedRowIdx
+    ) {
+      event.preventDefault();
+      return;
+    }
+
+    // dragging a selected row moves all the selected rows
+    let rowIdxs = [rowIdx];
+    if (typeof rowKeyGetter === 'function' && selectedRows?.has(rowKeyGetter(rows[rowIdx]))) {
+      rowIdxs = rows
+        .keys()
+        .filter((rowIdx) => selectedRows.has(rowKeyGetter(rows[rowIdx])))
+        .toArray();
+    }
+
+    // the rows can be dropped on other grids, or on any element reading the data
+    if (isRowsDragOutEnabled) {
+      const draggedRows = rowIdxs.map((rowIdx) => rows[rowIdx]);
+      const data: RowsDragData<R, K> = {
+        rowKeys: typeof rowKeyGetter === 'function' ? draggedRows.map(rowKeyGetter) : [],
+        rows: draggedRows
+      };
+      try {
+        event.dataTransfer.setData(ROWS_DRAG_MIME_TYPE, JSON.stringify(data));
+      } catch {
+        // rows with bigints or circular references cannot be serialized,
+        // they can still be reordered in the grid
+        if (onRowsReorder == null) {
+          event.preventDefault();
+          return;
+        }
+      }
+    }
+    setDraggedRowIdxs(rowIdxs);
+
+    // the whole row is used as the drag image instead of the drag handle
+    const rowElement = event.currentTarget.closest('[role="row"]');
+    if (rowElement !== null) {
+      const rect = rowElement.getBoundingClientRect();
+      event.dataTransfer.setDragImage(
+        rowElement,
+        event.clientX - rect.left,
+        event.clientY - rect.top
+      );
+    }
+    event.dataTransfer.effectAllowed = 'move';
+  }
+
+  function handleRowDragOver(event: React.DragEvent<HTMLDivElement>) {
+    // rows dragged from this grid are reordered, other rows are dropped with onRowsDrop
+    const isReordering = draggedRowIdxs !== undefined;
+    if (
+      isReordering
+        ? onRowsReorder == null
+        : onRowsDrop == null || !event.dataTransfer.types.includes(ROWS_DRAG_MIME_TYPE)
+    ) {
+      return;
+    }
+
+    const gridEl = gridRef.current!;
+    const rect = gridEl.getBoundingClientRect();
+    const headerAndTopSummaryRowsHeight = headerRowsHeight + topSummaryRowsCount * summaryRowHeight;
+    const viewportTop = rect.top + headerAndTopSummaryRowsHeight + topPinnedRowsHeight;
+    const viewportBottom =
+      rect.top + gridHeight - bottomSummaryRowsCount * summaryRowHeight - bottomPinnedRowsHeight;
+
+    // scroll while the pointer is near the top or bottom edge of the scrolled rows,
+    // dragover is fired repeatedly even when the pointer does not move
+    if (event.clientY < viewportTop + rowDragAutoScrollSize) {
+      gridEl.scrollTop -= rowDragAutoScrollStep;
+    } else if (event.clientY > viewportBottom - rowDragAutoScrollSize) {
+      gridEl.scrollTop += rowDragAutoScrollStep;
+    }
+
+    // the rows are dropped before or after the row under the pointer, depending on its closest half
+    const offsetY = gridEl.scrollTop - headerAndTopSummaryRowsHeight + event.clientY - rect.top;
+    let dropIdx = rows.length;
+    if (offsetY < totalRowHeight) {
+      const rowIdx = max(0, findRowIdx(offsetY));
+      dropIdx = offsetY - getRowTop(rowIdx) < getRowHeight(rowIdx) / 2 ? rowIdx : rowIdx + 1;
+    }
+    dropIdx = min(max(dropIdx, topPinnedRowsCount), firstBottomPinnedRowIdx);
+
+    if (!isReordering && canDropRows?.(getRawRowIdx(dropIdx)) === false) {
+      setRowDropIdx(undefined);
+      return;
+    }
+
+    // prevent default to allow drop
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setRowDropIdx(dropIdx);
+  }
+
+  function handleRowDragLeave(event: React.DragEvent<HTMLDivElement>) {
+    // ignore drag events going from an element inside the grid to another one
+    if (rowDropIdx === undefined || event.currentTarget.contains(event.relatedTarget as Node)) {
+      return;
+    }
+    setRowDropIdx(undefined);
+  }
+
+  function handleRowDrop(event: React.DragEvent<HTMLDivElement>) {
+    if (rowDropIdx === undefined) return;
+    // prevent the browser from redirecting in some cases
+    event.preventDefault();
+    setRowDropIdx(undefined);
+
+    if (draggedRowIdxs !== undefined) {
+      reorderRows(draggedRowIdxs, rowDropIdx);
+      setDraggedRowIdxs(undefined);
+      return;
+    }
+
+    const data = parseRowsDragData(event.dataTransfer.getData(ROWS_DRAG_MIME_TYPE));
+    if (data !== undefined) {
+      onRowsDrop!({ data, toIndex: getRawRowIdx(rowDropIdx) });
+    }
+  }
+
+  function handleRowDragEnd() {
+    if (draggedRowIdxs === undefined) return;
+    setDraggedRowIdxs(undefined);
+    setRowDropIdx(undefined);
+  }
+
+  function toggleColumnGroup(id: string) {
+    const newCollapsedColumnGroups = new Set(collapsedColumnGroups);
+    if (newCollapsedColumnGroups.has(id)) {
+      newCollapsedColumnGroups.delete(id);
+    } else {
+      newCollapsedColumnGroups.add(id);
+    }
+    onCollapsedColumnGroupsChange?.(newCollapsedColumnGroups);
+  }
+
   function handleColumnResizeEnd() {
     // This check is needed as double click on the resize handle triggers onPointerMove
     if (isColumnResizing) {
@@ -710,34 +1476,57 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
   }
 
   function handleDragHandlePointerMove(event: React.PointerEvent<HTMLDivElement>) {
-    // find dragged over row using the pointer position
+    // find dragged over cell using the pointer position
     const gridEl = gridRef.current!;
+    const rect = gridEl.getBoundingClientRect();
     const headerAndTopSummaryRowsHeight = headerRowsHeight + topSummaryRowsCount * summaryRowHeight;
-    const offset =
-      scrollTop -
-      headerAndTopSummaryRowsHeight +
-      event.clientY -
-      gridEl.getBoundingClientRect().top;
-    const overRowIdx = findRowIdx(offset);
-    setDraggedOverRowIdx(overRowIdx);
-    const ariaRowIndex = headerAndTopSummaryRowsCount + overRowIdx + 1;
+    const offsetY = scrollTop - headerAndTopSummaryRowsHeight + event.clientY - rect.top;
+    const offsetX = direction === 'rtl' ? rect.right - event.clientX : event.clientX - rect.left;
+    const position: Position = { idx: findColumnIdx(offsetX), rowIdx: findRowIdx(offsetY) };
+    const targetRange = getFillTargetRange(getFillSourceRange(), position);
+    if (
+      targetRange === undefined ||
+      draggedOverCellRange === undefined ||
+      !isSameCellRange(targetRange, draggedOverCellRange)
+    ) {
+      setDraggedOverCellRange(targetRange);
+    }
+
+    const ariaRowIndex = headerAndTopSummaryRowsCount + position.rowIdx + 1;
     const el = gridEl.querySelector(
-      `& > [aria-rowindex="${ariaRowIndex}"] > [aria-colindex="${activePosition.idx + 1}"]`
+      `& > [aria-rowindex="${ariaRowIndex}"] > [aria-colindex="${position.idx + 1}"]`
     );
     scrollIntoView(el);
   }
 
+  function findColumnIdx(offset: number): number {
+    // frozen columns are not affected by the horizontal scroll position
+    let left = offset < totalFrozenColumnWidth ? offset : offset + scrollLeft;
+    if (firstEndFrozenColumnIndex < columns.length) {
+      const endFrozenColumnsLeft = columnMetrics.get(columns[firstEndFrozenColumnIndex])!.left;
+      // columns frozen at the end stick to the end of the viewport when the grid is scrolled
+      const endFrozenColumnsOffset = min(
+        endFrozenColumnsLeft - scrollLeft,
+        gridWidth - totalEndFrozenColumnWidth
+      );
+      if (offset >= endFrozenColumnsOffset) {
+        left = offset - endFrozenColumnsOffset + endFrozenColumnsLeft;
+      }
+    }
+    for (const column of columns) {
+      const { left: columnLeft, width } = columnMetrics.get(column)!;
+      if (left < columnLeft + width) {
+        return column.idx;
+      }
+    }
+    return maxColIdx;
+  }
+
   function handleDragHandleLostPointerCapture() {
     setIsDragging(false);
-    if (draggedOverRowIdx === undefined) return;
-
-    const { rowIdx } = activePosition;
-    const [startRowIndex, endRowIndex] =
-      rowIdx < draggedOverRowIdx
-        ? [rowIdx + 1, draggedOverRowIdx + 1]
-        : [draggedOverRowIdx, rowIdx];
-    updateRows(startRowIndex, endRowIndex);
-    setDraggedOverRowIdx(undefined);
+    if (draggedOverCellRange === undefined) return;
+    fillCellRange(getFillSourceRange(), draggedOverCellRange);
+    setDraggedOverCellRange(undefined);
   }
 
   function handleDragHandleClick() {
@@ -747,30 +1536,228 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
 
   function handleDragHandleDoubleClick(event: React.MouseEvent<HTMLDivElement>) {
     event.stopPropagation();
-    updateRows(activePosition.rowIdx + 1, rows.length);
+    const sourceRange = getFillSourceRange();
+    if (sourceRange.endRowIdx === rows.length - 1) return;
+    fillCellRange(sourceRange, {
+      ...sourceRange,
+      startRowIdx: sourceRange.endRowIdx + 1,
+      endRowIdx: rows.length - 1
+    });
+  }
+
+  function handleFillKeyDown(event: KeyboardEvent<HTMLDivElement>): boolean {
+    if (onFill == null || onRowsChange == null || !activePositionIsCellInViewport) return false;
+    const { key, shiftKey, altKey } = event;
+    const isCtrlKey = isCtrlKeyHeldDown(event);
+
+    if (altKey && shiftKey && !isCtrlKey && !isDragging) {
+      const delta = getFillKeyDelta(key);
+      if (delta === undefined) return false;
+      event.preventDefault();
+      extendFillTargetRange(delta);
+      return true;
+    }
+
+    // the fill target extended with the keyboard is applied with Enter and cancelled with Escape
+    if (draggedOverCellRange !== undefined && !isDragging) {
+      if (key === 'Enter' || key === 'Escape') {
+        event.preventDefault();
+        if (key === 'Enter') {
+          fillCellRange(getFillSourceRange(), draggedOverCellRange);
+        } else {
+          setAnnouncement({ type: 'fillCancel' });
+        }
+        setDraggedOverCellRange(undefined);
+        return true;
+      }
+
+      if (key !== 'Shift' && key !== 'Alt' && key !== 'Control' && key !== 'Meta') {
+        setDraggedOverCellRange(undefined);
+      }
+    }
+
+    if (isCtrlKey && !shiftKey && !altKey) {
+      const lowerCaseKey = key.toLowerCase();
+      if (lowerCaseKey === 'd' || lowerCaseKey === 'r') {
+        event.preventDefault();
+        fillFromFirstLine(lowerCaseKey === 'd');
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  function getFillKeyDelta(key: string): Position | undefined {
+    switch (key) {
+      case 'ArrowUp':
+        return { idx: 0, rowIdx: -1 };
+      case 'ArrowDown':
+        return { idx: 0, rowIdx: 1 };
+      case leftKey:
+        return { idx: -1, rowIdx: 0 };
+      case rightKey:
+        return { idx: 1, rowIdx: 0 };
+      default:
+        return undefined;
+    }
+  }
+
+  function extendFillTargetRange(delta: Position) {
+    const sourceRange = getFillSourceRange();
+    const isVertical = delta.idx === 0;
+    const targetDirection =
+      draggedOverCellRange === undefined
+        ? undefined
+        : getFillDirection(sourceRange, draggedOverCellRange);
+    let head: Position;
+
+    if (
+      targetDirection !== undefined &&
+      isVertical === (targetDirection === 'up' || targetDirection === 'down')
+    ) {
+      // move the far edge of the current fill target
+      const { startIdx, startRowIdx, endIdx, endRowIdx } = draggedOverCellRange!;
+      head = {
+        idx: (targetDirection === 'start' ? startIdx : endIdx) + delta.idx,
+        rowIdx: (targetDirection === 'up' ? startRowIdx : endRowIdx) + delta.rowIdx
+      };
+    } else {
+      // start a new fill target next to the source range
+      head = {
+        idx: delta.idx < 0 ? sourceRange.startIdx - 1 : sourceRange.endIdx + delta.idx,
+        rowIdx:
+          delta.rowIdx < 0 ? sourceRange.startRowIdx - 1 : sourceRange.endRowIdx + delta.rowIdx
+      };
+    }
+
+    head = {
+      idx: max(0, min(head.idx, maxColIdx)),
+      rowIdx: max(0, min(head.rowIdx, rows.length - 1))
+    };
+    const targetRange = getFillTargetRange(sourceRange, head);
+    setDraggedOverCellRange(targetRange);
+
+    if (targetRange === undefined) {
+      setAnnouncement({ type: 'fillCancel' });
+      return;
+    }
+
+    const direction = getFillDirection(sourceRange, targetRange);
+    setAnnouncement({
+      type: 'fillTarget',
+      direction,
+      count:
+        direction === 'up' || direction === 'down'
+          ? targetRange.endRowIdx - targetRange.startRowIdx + 1
+          : targetRange.endIdx - targetRange.startIdx + 1
+    });
+    scrollToCell(head);
+  }
+
+  /**
+   * Fills the selected range, or the active cell, from its first row or column.
+   * The row above or the column before is used as the source when a single row or column is selected.
+   */
+  function fillFromFirstLine(isVertical: boolean) {
+    const range = getFillSourceRange();
+    const { startIdx, startRowIdx, endIdx, endRowIdx } = range;
+
+    if (isVertical) {
+      if (startRowIdx === endRowIdx) {
+        if (startRowIdx === 0) return;
+        fillCellRange(
+          { ...range, startRowIdx: startRowIdx - 1, endRowIdx: startRowIdx - 1 },
+          range
+        );
+      } else {
+        fillCellRange(
+          { ...range, endRowIdx: startRowIdx },
+          { ...range, startRowIdx: startRowIdx + 1 }
+        );
+      }
+    } else if (startIdx === endIdx) {
+      if (startIdx === 0) return;
+      fillCellRange({ ...range, startIdx: startIdx - 1, endIdx: startIdx - 1 }, range);
+    } else {
+      fillCellRange({ ...range, endIdx: startIdx }, { ...range, startIdx: startIdx + 1 });
+    }
+  }
+
+  function getFillSourceRange(): CellRange {
+    return selectedCellRange ?? getCellRange(activePosition, activePosition);
   }
 
-  function updateRows(startRowIdx: number, endRowIdx: number) {
+  function fillCellRange(sourceRange: CellRange, targetRange: CellRange) {
     if (onRowsChange == null) return;
 
-    const { idx } = activePosition;
-    const column = getActiveColumn();
-    const sourceRow = getActiveRow();
+    const direction = getFillDirection(sourceRange, targetRange);
+    const isVertical = direction === 'up' || direction === 'down';
+    const sourceLength = isVertical
+      ? sourceRange.endRowIdx - sourceRange.startRowIdx + 1
+      : sourceRange.endIdx - sourceRange.startIdx + 1;
+    // each column is filled separately when filling vertically, and each row when filling horizontally
+    const seriesMap = new Map<number, (offset: number) => unknown>();
+
+    function getSeries(lineIdx: number) {
+      let series = seriesMap.get(lineIdx);
+      if (series === undefined) {
+        const values = Array.from({ length: sourceLength }, (_, i) =>
+          isVertical
+            ? getCellValue(columns[lineIdx], rows[sourceRange.startRowIdx + i])
+            : getCellValue(columns[sourceRange.startIdx + i], rows[lineIdx])
+        );
+        series = createFillSeries(values, enableFillSeries === true);
+        seriesMap.set(lineIdx, series);
+      }
+      return series;
+    }
+
     const updatedRows = [...rows];
     const indexes: number[] = [];
-    for (let i = startRowIdx; i < endRowIdx; i++) {
-      if (isCellEditable({ rowIdx: i, idx })) {
-        const updatedRow = onFill!({ columnKey: column.key, sourceRow, targetRow: rows[i] });
-        if (updatedRow !== rows[i]) {
-          updatedRows[i] = updatedRow;
-          indexes.push(i);
-        }
+    let filledCellsCount = 0;
+    for (let rowIdx = targetRange.startRowIdx; rowIdx <= targetRange.endRowIdx; rowIdx++) {
+      let targetRow = rows[rowIdx];
+      for (let idx = targetRange.startIdx; idx <= targetRange.endIdx; idx++) {
+        const column = columns[idx];
+        if (!isCellEditableUtil(column, rows[rowIdx])) continue;
+        filledCellsCount++;
+
+        const offset = isVertical ? rowIdx - sourceRange.startRowIdx : idx - sourceRange.startIdx;
+        const sourceOffset = ((offset % sourceLength) + sourceLength) % sourceLength;
+        const sourceColumn = isVertical ? column : columns[sourceRange.startIdx + sourceOffset];
+        const value = getSeries(isVertical ? idx : rowIdx)(offset);
+        const sourceRow = isVertical ? rows[sourceRange.startRowIdx + sourceOffset] : rows[rowIdx];
+        targetRow = onFill!({
+          columnKey: column.key,
+          sourceColumnKey: sourceColumn.key,
+          sourceRow,
+          targetRow,
+          value,
+          sourceRange,
+          targetRange,
+          direction
+        });
+      }
+
+      if (targetRow !== rows[rowIdx]) {
+        updatedRows[rowIdx] = targetRow;
+        indexes.push(rowIdx);
       }
     }
 
     if (indexes.length > 0) {
-      onRowsChange(updatedRows, { indexes, column });
+      handleRowsChange(updatedRows, {
+        indexes,
+        column: columns[targetRange.startIdx],
+        source: 'fill'
+      });
     }
+
+    // nothing is announced when no cells were filled
+    setAnnouncement(
+      filledCellsCount === 0 ? undefined : { type: 'fill', cellsCount: filledCellsCount }
+    );
   }
 
   function isCellEditable(position: Position): boolean {
@@ -780,6 +1767,77 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     );
   }
 
+  function setSelectedCellRange(range: CellRange | null) {
+    // a range covering the active cell only is not a range
+    if (range !== null && isSingleCellRange(range)) {
+      range = null;
+    }
+    if (!isSameCellRange(selectedCellRange, range)) {
+      onSelectedCellRangeChange?.(range);
+    }
+  }
+
+  function selectCellRange(position: Position) {
+    if (!validatePosition(position).isCellInViewport) return;
+
+    if (activePosition.mode !== 'ACTIVE' || !activePositionIsCellInViewport) {
+      // there is no cell to anchor the range to
+      setPosition(position);
+      return;
+    }
+
+    setSelectedCellRange(getCellRange(activePosition, position));
+  }
+
+  function extendCellRange(key: string, ctrlKey: boolean) {
+    const head =
+      selectedCellRange === null
+        ? activePosition
+        : getCellRangeHead(selectedCellRange, activePosition);
+    let { idx, rowIdx } = head;
+
+    switch (key) {
+      case 'ArrowUp':
+        rowIdx = max(0, rowIdx - 1);
+        break;
+      case 'ArrowDown':
+        rowIdx = min(rows.length - 1, rowIdx + 1);
+        break;
+      case leftKey:
+        idx = max(0, idx - 1);
+        break;
+      case rightKey:
+        idx = min(maxColIdx, idx + 1);
+        break;
+      case 'Home':
+        idx = 0;
+        if (ctrlKey) rowIdx = 0;
+        break;
+      case 'End':
+        idx = maxColIdx;
+        if (ctrlKey) rowIdx = rows.length - 1;
+        break;
+      case 'PageUp': {
+        const nextRowY = getRowTop(rowIdx) + getRowHeight(rowIdx) - clientHeight;
+        rowIdx = nextRowY > 0 ? findRowIdx(nextRowY) : 0;
+        break;
+      }
+      case 'PageDown': {
+        const nextRowY = getRowTop(rowIdx) + clientHeight;
+        rowIdx = nextRowY < totalRowHeight ? findRowIdx(nextRowY) : rows.length - 1;
+        break;
+      }
+      default:
+        return;
+    }
+
+    // the range does not extend to the header and summary rows
+    rowIdx = max(0, min(rows.length - 1, rowIdx));
+    if (isSamePosition(head, { idx, rowIdx })) return;
+    setSelectedCellRange(getCellRange(activePosition, { idx, rowIdx }));
+    scrollToCell({ idx, rowIdx });
+  }
+
   function setPosition(position: Position, options?: SetActivePositionOptions): void {
     const { isPositionInActiveBounds } = validatePosition(position);
     if (!isPositionInActiveBounds) return;
@@ -787,6 +1845,11 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
 
     const samePosition = isSamePosition(activePosition, position);
 
+    if (!samePosition) {
+      setSelectedCellRange(null);
+      setDraggedOverCellRange(undefined);
+    }
+
     if (options?.enableEditor && isCellEditable(position)) {
       const row = rows[position.rowIdx];
       setActivePosition({ ...position, mode: 'EDIT', row, originalRow: row });
@@ -887,6 +1950,17 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     // prevent scrolling and do not allow focus to leave
     event.preventDefault();
 
+    if (
+      shiftKey &&
+      key !== 'Tab' &&
+      isCellRangeSelectable &&
+      activePosition.mode === 'ACTIVE' &&
+      activePositionIsCellInViewport
+    ) {
+      extendCellRange(key, isCtrlKeyHeldDown(event));
+      return;
+    }
+
     const ctrlKey = isCtrlKeyHeldDown(event);
     const nextPosition = getNextPosition(key, ctrlKey, shiftKey);
     if (isSamePosition(activePosition, nextPosition)) return;
@@ -903,6 +1977,7 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       mainHeaderRowIdx,
       maxRowIdx,
       lastFrozenColumnIndex,
+      firstEndFrozenColumnIndex,
       cellNavigationMode,
       activePosition,
       nextPosition,
@@ -912,16 +1987,51 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     setPosition(nextActivePosition, { shouldFocus: true });
   }
 
-  function getDraggedOverCellIdx(currentRowIdx: number): number | undefined {
-    if (draggedOverRowIdx === undefined) return;
-    const { rowIdx } = activePosition;
-
-    const isDraggedOver =
-      rowIdx < draggedOverRowIdx
-        ? rowIdx < currentRowIdx && currentRowIdx <= draggedOverRowIdx
-        : rowIdx > currentRowIdx && currentRowIdx >= draggedOverRowIdx;
+  function getFrozenColumnShadows(
+    shadowStyles: React.CSSProperties,
+    shadowClassname: string,
+    shadowTopClassname: string
+  ) {
+    return (
+      <>
+        <div
+          className={shadowTopClassname}
+          style={{
+            ...shadowStyles,
+            gridRowStart: 1,
+            gridRowEnd: headerRowsCount + 1 + topSummaryRowsCount,
+            insetBlockStart: 0
+          }}
+        />
+
+        {rows.length > 0 && (
+          <div
+            className={shadowClassname}
+            style={{
+              ...shadowStyles,
+              gridRowStart: headerAndTopSummaryRowsCount + rowOverscanStartIdx + 1,
+              gridRowEnd: headerAndTopSummaryRowsCount + rowOverscanEndIdx + 2
+            }}
+          />
+        )}
 
-    return isDraggedOver ? activePosition.idx : undefined;
+        {bottomSummaryRows != null && bottomSummaryRowsCount > 0 && (
+          <div
+            className={shadowTopClassname}
+            style={{
+              ...shadowStyles,
+              gridRowStart: headerAndTopSummaryRowsCount + rows.length + 1,
+              gridRowEnd: headerAndTopSummaryRowsCount + rows.length + 1 + bottomSummaryRowsCount,
+              insetBlockStart:
+                clientHeight > totalRowHeight
+                  ? gridHeight - summaryRowHeight * bottomSummaryRowsCount
+                  : undefined,
+              insetBlockEnd: clientHeight > totalRowHeight ? undefined : 0
+            }}
+          />
+        )}
+      </>
+    );
   }
 
   function getDragHandle() {
@@ -929,15 +2039,16 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       return;
     }
 
-    const { rowIdx } = activePosition;
-    const column = getActiveColumn();
+    // the drag handle is rendered at the bottom end corner of the source range
+    const { endIdx, endRowIdx: rowIdx } = getFillSourceRange();
+    const column = columns[endIdx];
     if (column.renderEditCell == null || column.editable === false) {
       return;
     }
 
     const isLastRow = rowIdx === maxRowIdx;
     const columnWidth = getColumnWidth(column);
-    const colSpan = column.colSpan?.({ type: 'ROW', row: getActiveRow() }) ?? 1;
+    const colSpan = column.colSpan?.({ type: 'ROW', row: rows[rowIdx] }) ?? 1;
     const { insetInlineStart, ...style } = getCellStyle(column, colSpan);
     const marginEnd = 'calc(var(--rdg-drag-handle-size) * -0.5 + 1px)';
     const isLastColumn = column.idx + colSpan - 1 === maxColIdx;
@@ -978,7 +2089,10 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
 
     const { row } = activePosition;
     const column = getActiveColumn();
-    const colSpan = getColSpan(column, lastFrozenColumnIndex, { type: 'ROW', row });
+    const colSpan = getColSpan(column, lastFrozenColumnIndex, firstEndFrozenColumnIndex, {
+      type: 'ROW',
+      row
+    });
 
     function closeEditor(shouldFocus: boolean) {
       const newPosition: ActivePosition = { idx: activePosition.idx, rowIdx, mode: 'ACTIVE' };
@@ -1020,16 +2134,49 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
 
   function* iterateOverViewportRowIdx() {
     const activeRowIdx = activePosition.rowIdx;
+    // pinned rows are always rendered
+    const startRowIdx = max(rowOverscanStartIdx, topPinnedRowsCount);
+    const endRowIdx = min(rowOverscanEndIdx, firstBottomPinnedRowIdx - 1);
 
-    if (activePositionIsInViewport && activeRowIdx < rowOverscanStartIdx) {
+    for (let rowIdx = 0; rowIdx < topPinnedRowsCount; rowIdx++) {
+      yield rowIdx;
+    }
+    if (
+      activePositionIsInViewport &&
+      activeRowIdx >= topPinnedRowsCount &&
+      activeRowIdx < startRowIdx
+    ) {
       yield activeRowIdx;
     }
-    for (let rowIdx = rowOverscanStartIdx; rowIdx <= rowOverscanEndIdx; rowIdx++) {
+    for (let rowIdx = startRowIdx; rowIdx <= endRowIdx; rowIdx++) {
       yield rowIdx;
     }
-    if (activePositionIsInViewport && activeRowIdx > rowOverscanEndIdx) {
+    if (
+      activePositionIsInViewport &&
+      activeRowIdx > endRowIdx &&
+      activeRowIdx < firstBottomPinnedRowIdx
+    ) {
       yield activeRowIdx;
     }
+    for (let rowIdx = firstBottomPinnedRowIdx; rowIdx < rows.length; rowIdx++) {
+      yield rowIdx;
+    }
+  }
+
+  function getPinnedRowStyle(rowIdx: number): React.CSSProperties {
+    if (rowIdx < topPinnedRowsCount) {
+      return {
+        insetBlockStart:
+          headerRowsHeight + topSummaryRowsCount * summaryRowHeight + getRowTop(rowIdx)
+      };
+    }
+    return {
+      insetBlockEnd:
+        bottomSummaryRowsCount * summaryRowHeight +
+        totalRowHeight -
+        getRowTop(rowIdx) -
+        getRowHeight(rowIdx)
+    };
   }
 
   function getViewportRows() {
@@ -1038,10 +2185,13 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     return iterateOverViewportRowIdx()
       .map((rowIdx) => {
         const isActiveRow = rowIdx === activeRowIdx;
+        const isPinnedRow = rowIdx < topPinnedRowsCount || rowIdx >= firstBottomPinnedRowIdx;
 
         // if the row is outside the viewport then only render its active column, if any
         const iterateOverColumns =
-          isActiveRow && (rowIdx < rowOverscanStartIdx || rowIdx > rowOverscanEndIdx)
+          isActiveRow &&
+          !isPinnedRow &&
+          (rowIdx < rowOverscanStartIdx || rowIdx > rowOverscanEndIdx)
             ? iterateOverViewportColumnsForRowOutsideOfViewport
             : iterateOverViewportColumnsForRow;
 
@@ -1069,10 +2219,23 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
           onCellContextMenu: onCellContextMenuLatest,
           rowClass,
           gridRowStart,
+          className: classnames(
+            isPinnedRow && pinnedRowClassname,
+            draggedRowIdxs?.includes(rowIdx) === true && rowDraggingClassname
+          ),
+          style: isPinnedRow ? getPinnedRowStyle(rowIdx) : undefined,
           activeCellIdx: isActiveRow ? activeIdx : undefined,
-          draggedOverCellIdx: getDraggedOverCellIdx(rowIdx),
+          draggedOverCellRange:
+            draggedOverCellRange !== undefined && isRowInCellRange(draggedOverCellRange, rowIdx)
+              ? draggedOverCellRange
+              : undefined,
+          selectedCellRange:
+            selectedCellRange !== null && isRowInCellRange(selectedCellRange, rowIdx)
+              ? selectedCellRange
+              : undefined,
           onRowChange: handleFormatterRowChangeLatest,
           setActivePosition: setPositionLatest,
+          selectCellRange: selectCellRangeLatest,
           activeCellEditor: getCellEditor(rowIdx),
           isTreeGrid
         });
@@ -1085,7 +2248,15 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
     setColumnWidthsInternal(columnWidthsRaw);
   }
 
-  let templateRows = `repeat(${headerRowsCount}, ${headerRowHeight}px)`;
+  let templateRows = isHeaderRowHeightAuto
+    ? headerRowHeights.map((height) => `${height}px`).join(' ')
+    : `repeat(${headerRowsCount}, ${headerRowHeight}px)`;
+  const headerRowsHeightCssVars: Record<string, string> = {};
+  let headerRowsTop = 0;
+  for (let rowIdx = 1; rowIdx < headerRowsCount; rowIdx++) {
+    headerRowsTop += headerRowHeights[rowIdx - 1];
+    headerRowsHeightCssVars[`--rdg-header-rows-height-${rowIdx}`] = `${headerRowsTop}px`;
+  }
   if (topSummaryRowsCount > 0) {
     templateRows += ` repeat(${topSummaryRowsCount}, ${summaryRowHeight}px)`;
   }
@@ -1109,16 +2280,24 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       // Scrollable containers without tabIndex are keyboard focusable in Chrome only if there is no focusable element inside
       // whereas they are always focusable in Firefox. We need to set tabIndex to have a consistent behavior across browsers.
       tabIndex={-1}
-      className={classnames(rootClassname, isDragging && viewportDraggingClassname, className)}
+      className={classnames(
+        rootClassname,
+        isHeaderRowHeightAuto && autoHeightHeaderRowsClassname,
+        isDragging && viewportDraggingClassname,
+        className
+      )}
       style={{
         ...style,
         // set scrollPadding to correctly scroll to non-sticky cells/rows
         scrollPaddingInlineStart: totalFrozenColumnWidth,
-        scrollPaddingBlockStart: headerRowsHeight + topSummaryRowsCount * summaryRowHeight,
-        scrollPaddingBlockEnd: bottomSummaryRowsCount * summaryRowHeight,
+        scrollPaddingInlineEnd: totalEndFrozenColumnWidth,
+        scrollPaddingBlockStart:
+          headerRowsHeight + topSummaryRowsCount * summaryRowHeight + topPinnedRowsHeight,
+        scrollPaddingBlockEnd: bottomSummaryRowsCount * summaryRowHeight + bottomPinnedRowsHeight,
         gridTemplateColumns,
         gridTemplateRows: templateRows,
-        '--rdg-header-row-height': `${headerRowHeight}px`,
+        '--rdg-header-row-height': isHeaderRowHeightAuto ? undefined : `${headerRowHeight}px`,
+        ...headerRowsHeightCssVars,
         ...layoutCssVars
       }}
       dir={direction}
@@ -1127,6 +2306,10 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       onKeyDown={handleKeyDown}
       onCopy={handleCellCopy}
       onPaste={handleCellPaste}
+      onDragOver={handleRowDragOver}
+      onDragLeave={handleRowDragLeave}
+      onDrop={handleRowDrop}
+      onDragEnd={handleRowDragEnd}
       data-testid={testId}
       data-cy={dataCy}
     >
@@ -1143,17 +2326,30 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
                   activePosition.rowIdx === minRowIdx + index ? activePosition.idx : undefined
                 }
                 setPosition={selectHeaderCellLatest}
+                draggedColumn={draggedColumn}
+                setDraggedColumn={setDraggedColumn}
+                getColumnDropPosition={getDraggedColumnDropPosition}
+                onColumnDrop={handleColumnDropLatest}
+                toggleColumnGroup={toggleColumnGroupLatest}
+                onColumnMove={moveColumnLatest}
+                direction={direction}
               />
             ))}
             <HeaderRow
               headerRowClass={headerRowClass}
-              rowIdx={headerRowsCount}
+              rowIdx={columnHeaderRowsCount}
               iterateOverViewportColumnsForRow={iterateOverViewportColumnsForRow}
               onColumnResize={handleColumnResizeLatest}
               onColumnResizeEnd={handleColumnResizeEndLatest}
-              onColumnsReorder={onColumnsReorderLastest}
+              onColumnKeyboardResize={handleColumnKeyboardResizeLatest}
+              onColumnMove={moveColumnLatest}
+              draggedColumn={draggedColumn}
+              setDraggedColumn={setDraggedColumn}
+              getColumnDropPosition={getDraggedColumnDropPosition}
+              onColumnDrop={handleColumnDropLatest}
               sortColumns={sortColumns}
               onSortColumnsChange={onSortColumnsChangeLatest}
+              multiSortMode={multiSortMode}
               activeCellIdx={
                 activePosition.rowIdx === mainHeaderRowIdx ? activePosition.idx : undefined
               }
@@ -1161,15 +2357,37 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
               shouldFocusGrid={!activePositionIsInActiveBounds}
               direction={direction}
             />
+            {isHeaderRowHeightAuto && (
+              <HeaderMeasuringCells
+                viewportColumns={viewportColumns}
+                columnHeaderRowsCount={columnHeaderRowsCount}
+                sortColumns={sortColumns}
+                observeMeasuringCell={observeMeasuringCell}
+              />
+            )}
           </HeaderRowSelectionContext>
         </HeaderRowSelectionChangeContext>
+        {filterRowsCount > 0 && (
+          <FilterRow
+            rowIdx={columnHeaderRowsCount + 1}
+            iterateOverViewportColumnsForRow={iterateOverViewportColumnsForRow}
+            activeCellIdx={
+              activePosition.rowIdx === mainHeaderRowIdx + 1 ? activePosition.idx : undefined
+            }
+            setPosition={selectHeaderCellLatest}
+            filters={filters ?? emptyFilters}
+            columns={rawColumns}
+            rows={unfilteredRows ?? rawRows}
+            onFiltersChange={onFiltersChangeLatest}
+          />
+        )}
         {rows.length === 0 && noRowsFallback ? (
           noRowsFallback
         ) : (
           <>
             {topSummaryRows?.map((row, rowIdx) => {
               const gridRowStart = headerRowsCount + 1 + rowIdx;
-              const summaryRowIdx = mainHeaderRowIdx + 1 + rowIdx;
+              const summaryRowIdx = mainHeaderRowIdx + 1 + filterRowsCount + rowIdx;
               const isSummaryRowActive = activePosition.rowIdx === summaryRowIdx;
               const top = headerRowsHeight + summaryRowHeight * rowIdx;
 
@@ -1191,7 +2409,9 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
               );
             })}
             <RowSelectionChangeContext value={selectRowLatest}>
-              {getViewportRows()}
+              <RowDragStartContext value={handleRowDragStartLatest}>
+                <SearchTextContext value={searchText ?? ''}>{getViewportRows()}</SearchTextContext>
+              </RowDragStartContext>
             </RowSelectionChangeContext>
             {bottomSummaryRows?.map((row, rowIdx) => {
               const gridRowStart = headerAndTopSummaryRowsCount + rows.length + rowIdx + 1;
@@ -1225,48 +2445,40 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
             })}
           </>
         )}
-      </DataGridDefaultRenderersContext>
 
-      {lastFrozenColumnIndex > -1 && (
-        <>
-          <div
-            className={frozenColumnShadowTopClassname}
-            style={{
-              ...frozenShadowStyles,
-              gridRowStart: 1,
-              gridRowEnd: headerRowsCount + 1 + topSummaryRowsCount,
-              insetBlockStart: 0
-            }}
-          />
+        {autosizeOptions !== undefined && (
+          // the cell renderers may use the selection and drag hooks
+          <HeaderRowSelectionChangeContext value={selectHeaderRowLatest}>
+            <HeaderRowSelectionContext value={headerSelectionValue}>
+              <RowSelectionChangeContext value={selectRowLatest}>
+                <RowDragStartContext value={handleRowDragStartLatest}>
+                  <AutosizeMeasuringCells
+                    columns={columnsToAutosize}
+                    rows={rows}
+                    rowOverscanStartIdx={rowOverscanStartIdx}
+                    rowOverscanEndIdx={rowOverscanEndIdx}
+                    sortColumns={sortColumns}
+                    options={autosizeOptions}
+                  />
+                </RowDragStartContext>
+              </RowSelectionChangeContext>
+            </HeaderRowSelectionContext>
+          </HeaderRowSelectionChangeContext>
+        )}
+      </DataGridDefaultRenderersContext>
 
-          {rows.length > 0 && (
-            <div
-              className={frozenColumnShadowClassname}
-              style={{
-                ...frozenShadowStyles,
-                gridRowStart: headerAndTopSummaryRowsCount + rowOverscanStartIdx + 1,
-                gridRowEnd: headerAndTopSummaryRowsCount + rowOverscanEndIdx + 2
-              }}
-            />
-          )}
-
-          {bottomSummaryRows != null && bottomSummaryRowsCount > 0 && (
-            <div
-              className={frozenColumnShadowTopClassname}
-              style={{
-                ...frozenShadowStyles,
-                gridRowStart: headerAndTopSummaryRowsCount + rows.length + 1,
-                gridRowEnd: headerAndTopSummaryRowsCount + rows.length + 1 + bottomSummaryRowsCount,
-                insetBlockStart:
-                  clientHeight > totalRowHeight
-                    ? gridHeight - summaryRowHeight * bottomSummaryRowsCount
-                    : undefined,
-                insetBlockEnd: clientHeight > totalRowHeight ? undefined : 0
-              }}
-            />
-          )}
-        </>
-      )}
+      {lastFrozenColumnIndex > -1 &&
+        getFrozenColumnShadows(
+          frozenShadowStyles,
+          frozenColumnShadowClassname,
+          frozenColumnShadowTopClassname
+        )}
+      {firstEndFrozenColumnIndex < columns.length &&
+        getFrozenColumnShadows(
+          frozenEndShadowStyles,
+          frozenEndColumnShadowClassname,
+          frozenEndColumnShadowTopClassname
+        )}
 
       {getDragHandle()}
 
@@ -1274,10 +2486,34 @@ export function DataGrid<R, SR = unknown, K extends Key = Key>(props: DataGridPr
       {renderMeasuringCells(viewportColumns)}
 
       {scrollToPositionElement}
+
+      {rowDropIdx !== undefined && (
+        <div
+          className={rowDropIndicatorClassname}
+          style={{
+            gridRowStart: headerAndTopSummaryRowsCount + min(rowDropIdx, rows.length - 1) + 1,
+            // the indicator is shown after the last row when the rows are dropped at the end
+            alignSelf: rowDropIdx === rows.length ? 'end' : 'start'
+          }}
+        />
+      )}
+
+      <div className={liveRegionClassname} aria-live="polite" aria-atomic="true">
+        {announcement !== undefined && renderAnnouncement(announcement)}
+      </div>
     </div>
   );
 }
 
+// keeps the most recently sorted columns
+function limitSortColumns(
+  sortColumns: readonly SortColumn[],
+  maxSortColumns: Maybe<number>
+): SortColumn[] {
+  if (maxSortColumns == null || sortColumns.length <= maxSortColumns) return [...sortColumns];
+  return maxSortColumns <= 0 ? [] : sortColumns.slice(sortColumns.length - maxSortColumns);
+}
+
 function isSamePosition(p1: Position, p2: Position) {
   return p1.idx === p2.idx && p1.rowIdx === p2.rowIdx;
 }
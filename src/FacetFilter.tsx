@@ -0,0 +1,283 @@
+import { useId, useRef, useState } from 'react';
+import { css } from 'ecij';
+
+import { useFacets } from './hooks';
+import type { Facet } from './hooks';
+import { isEmptyValue } from './utils';
+import type {
+  CalculatedColumn,
+  ColumnFilter,
+  ColumnOrColumnGroup,
+  Filters,
+  FilterValue
+} from './types';
+
+// rendering a checkbox for each value is slow with many distinct values, the search narrows the list
+const maxRenderedFacets = 1000;
+
+const facetPopover = css`
+  @layer rdg.FacetFilter {
+    position: fixed;
+    inset: auto;
+    margin: 0;
+    box-sizing: border-box;
+    display: none;
+    flex-direction: column;
+    gap: 4px;
+    inline-size: 240px;
+    max-block-size: 320px;
+    padding: 8px;
+    border: 1px solid var(--rdg-border-color);
+    border-radius: 4px;
+    color: var(--rdg-color);
+    background-color: var(--rdg-background-color);
+    font-family: inherit;
+    font-size: var(--rdg-font-size);
+    font-weight: normal;
+
+    &:popover-open {
+      display: flex;
+    }
+  }
+`;
+
+const facetPopoverClassname = `rdg-facet-popover ${facetPopover}`;
+
+const facetList = css`
+  @layer rdg.FacetFilter {
+    overflow-y: auto;
+  }
+`;
+
+const facetOption = css`
+  @layer rdg.FacetFilter {
+    display: flex;
+    gap: 4px;
+    align-items: center;
+    white-space: nowrap;
+
+    & > span:first-of-type {
+      flex-grow: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+  }
+`;
+
+const facetOptionClassname = `rdg-facet-option ${facetOption}`;
+
+type FacetColumnFilter<R> = Extract<ColumnFilter<R>, { type: 'facet' }>;
+
+interface FacetFilterProps<R, SR> {
+  column: CalculatedColumn<R, SR>;
+  filter: FacetColumnFilter<R>;
+  filterValue: FilterValue | undefined;
+  label: string;
+  inputProps: { className: string; tabIndex: number; disabled: boolean };
+  rows: readonly R[];
+  filters: Filters;
+  columns: readonly ColumnOrColumnGroup<R, SR>[];
+  setFilterValue: (filterValue: FilterValue | undefined) => void;
+}
+
+export default function FacetFilter<R, SR>({
+  column,
+  filter,
+  filterValue,
+  label,
+  inputProps,
+  rows,
+  filters,
+  columns,
+  setFilterValue
+}: FacetFilterProps<R, SR>) {
+  const popoverId = useId();
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const facets = useFacets(column, rows, filters, columns, isOpen);
+
+  // `undefined` when all the values are selected
+  const selectedValues = filterValue?.type === 'set' ? new Set(filterValue.values) : undefined;
+  const normalizedSearchText = searchText.trim().toLocaleLowerCase();
+  const matchingFacets =
+    facets?.filter((facet) =>
+      getFacetLabel(filter, facet.value).toLocaleLowerCase().includes(normalizedSearchText)
+    ) ?? [];
+  const selectedMatchingCount = matchingFacets.filter((facet) => isSelected(facet.value)).length;
+
+  function isSelected(value: unknown) {
+    return selectedValues === undefined || selectedValues.has(value);
+  }
+
+  function setSelectedValues(values: ReadonlySet<unknown>) {
+    // selecting all the values clears the filter
+    if (facets!.every((facet) => values.has(facet.value))) {
+      setFilterValue(undefined);
+    } else {
+      setFilterValue({ type: 'set', values: Array.from(values) });
+    }
+  }
+
+  function getSelectedValues() {
+    return new Set(selectedValues ?? facets!.map((facet) => facet.value));
+  }
+
+  function toggleValue(value: unknown, checked: boolean) {
+    const values = getSelectedValues();
+    if (checked) {
+      values.add(value);
+    } else {
+      values.delete(value);
+    }
+    setSelectedValues(values);
+  }
+
+  // only the values matching the search are selected or deselected
+  function toggleMatchingValues(checked: boolean) {
+    const values = getSelectedValues();
+    for (const { value } of matchingFacets) {
+      if (checked) {
+        values.add(value);
+      } else {
+        values.delete(value);
+      }
+    }
+    setSelectedValues(values);
+  }
+
+  function onBeforeToggle(event: React.ToggleEvent<HTMLDivElement>) {
+    if (event.newState !== 'open') return;
+    // position the popover below the button
+    const { left, bottom } = buttonRef.current!.getBoundingClientRect();
+    event.currentTarget.style.left = `${left}px`;
+    event.currentTarget.style.top = `${bottom}px`;
+  }
+
+  function onToggle(event: React.ToggleEvent<HTMLDivElement>) {
+    const isPopoverOpen = event.newState === 'open';
+    setIsOpen(isPopoverOpen);
+    if (isPopoverOpen) {
+      searchInputRef.current!.focus();
+    } else {
+      setSearchText('');
+    }
+  }
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    // keep the keys in the popover, so they are not handled by the cell or the grid
+    event.stopPropagation();
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.currentTarget.hidePopover();
+      buttonRef.current!.focus();
+    }
+  }
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type="button"
+        {...inputProps}
+        aria-label={`Filter ${label}`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        popoverTarget={popoverId}
+      >
+        {selectedValues === undefined ? 'All' : `${selectedValues.size} selected`}
+      </button>
+      <div
+        id={popoverId}
+        popover="auto"
+        role="dialog"
+        aria-label={`Filter ${label}`}
+        className={facetPopoverClassname}
+        onBeforeToggle={onBeforeToggle}
+        onToggle={onToggle}
+        onKeyDown={onKeyDown}
+        // do not move the active position when interacting with the popover
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={searchInputRef}
+          type="search"
+          className={inputProps.className}
+          aria-label="Search values"
+          placeholder="Search"
+          value={searchText}
+          onChange={(event) => setSearchText(event.target.value)}
+        />
+        {isOpen &&
+          (facets === undefined ? (
+            <div role="status">Loading values…</div>
+          ) : matchingFacets.length === 0 ? (
+            <div role="status">No values</div>
+          ) : (
+            <>
+              <label className={facetOptionClassname}>
+                <input
+                  ref={(el) => {
+                    if (el) {
+                      el.indeterminate =
+                        selectedMatchingCount > 0 && selectedMatchingCount < matchingFacets.length;
+                    }
+                  }}
+                  type="checkbox"
+                  checked={selectedMatchingCount === matchingFacets.length}
+                  onChange={(event) => toggleMatchingValues(event.target.checked)}
+                />
+                <span>{searchText === '' ? 'Select all' : 'Select all search results'}</span>
+              </label>
+              <div className={facetList}>
+                {matchingFacets.slice(0, maxRenderedFacets).map((facet, index) => (
+                  <FacetOption
+                    key={index}
+                    facet={facet}
+                    label={getFacetLabel(filter, facet.value)}
+                    isSelected={isSelected(facet.value)}
+                    onChange={toggleValue}
+                  />
+                ))}
+              </div>
+              {matchingFacets.length > maxRenderedFacets && (
+                <div role="status">
+                  Showing {maxRenderedFacets} of {matchingFacets.length} values, search to find more
+                  values
+                </div>
+              )}
+            </>
+          ))}
+      </div>
+    </>
+  );
+}
+
+interface FacetOptionProps {
+  facet: Facet;
+  label: string;
+  isSelected: boolean;
+  onChange: (value: unknown, checked: boolean) => void;
+}
+
+function FacetOption({ facet, label, isSelected, onChange }: FacetOptionProps) {
+  return (
+    <label className={facetOptionClassname}>
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={(event) => onChange(facet.value, event.target.checked)}
+      />
+      <span>{label}</span>
+      <span>{facet.count}</span>
+    </label>
+  );
+}
+
+function getFacetLabel<R>(filter: FacetColumnFilter<R>, value: unknown) {
+  if (isEmptyValue(value)) return '(Blanks)';
+  if (typeof filter.formatValue === 'function') return filter.formatValue(value);
+  return String(value);
+}
@@ -0,0 +1,268 @@
+import { css } from 'ecij';
+
+import { useRovingTabIndex } from './hooks';
+import { getCellClassname, getCellStyle, getHeaderRowsHeight } from './utils';
+import type {
+  CalculatedColumn,
+  ColumnFilter,
+  ColumnOrColumnGroup,
+  Filters,
+  FilterValue,
+  Position
+} from './types';
+import FacetFilter from './FacetFilter';
+
+const filterInput = css`
+  @layer rdg.FilterInput {
+    box-sizing: border-box;
+    inline-size: 100%;
+    min-inline-size: 0;
+    block-size: calc(100% - 8px);
+    padding-block: 0;
+    padding-inline: 4px;
+    border: 1px solid var(--rdg-border-color);
+    border-radius: 2px;
+    color: var(--rdg-color);
+    background-color: var(--rdg-background-color);
+    font-family: inherit;
+    font-size: var(--rdg-font-size);
+
+    &:focus {
+      border-color: var(--rdg-selection-color);
+      outline: none;
+    }
+  }
+`;
+
+const filterInputClassname = `rdg-filter-input ${filterInput}`;
+
+const filterRange = css`
+  @layer rdg.FilterInput {
+    display: flex;
+    gap: 4px;
+    block-size: 100%;
+    align-items: center;
+  }
+`;
+
+interface FilterCellProps<R, SR> {
+  column: CalculatedColumn<R, SR>;
+  colSpan: number | undefined;
+  rowIdx: number;
+  isCellActive: boolean;
+  filterValue: FilterValue | undefined;
+  rows: readonly R[];
+  filters: Filters;
+  columns: readonly ColumnOrColumnGroup<R, SR>[];
+  onFilterChange: ((columnKey: string, filterValue: FilterValue | undefined) => void) | undefined;
+  setPosition: (position: Position) => void;
+}
+
+export default function FilterCell<R, SR>({
+  column,
+  colSpan,
+  rowIdx,
+  isCellActive,
+  filterValue,
+  rows,
+  filters,
+  columns,
+  onFilterChange,
+  setPosition
+}: FilterCellProps<R, SR>) {
+  const { tabIndex, onFocus } = useRovingTabIndex(isCellActive);
+  const { filter } = column;
+  const label = typeof column.name === 'string' ? column.name : column.key;
+
+  function onMouseDown() {
+    setPosition({ idx: column.idx, rowIdx });
+  }
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    const { key, shiftKey, target, currentTarget } = event;
+    // the inputs of the facet filter popover are not included, they are handled by the popover
+    const inputs = Array.from(
+      currentTarget.querySelectorAll<HTMLElement>('.rdg-filter-input:not([popover] *)')
+    );
+
+    if (target === currentTarget) {
+      // the inputs are not part of the tab sequence, press Enter to focus the first input
+      if (key === 'Enter' && inputs.length > 0) {
+        event.preventDefault();
+        event.stopPropagation();
+        inputs[0].focus();
+      }
+      return;
+    }
+
+    if (key === 'Escape') {
+      event.stopPropagation();
+      currentTarget.focus();
+      return;
+    }
+
+    if (key === 'Tab') {
+      // move the focus between the inputs of the cell, then let the grid move to the next cell
+      const nextIndex = inputs.indexOf(target as HTMLElement) + (shiftKey ? -1 : 1);
+      if (nextIndex < 0 || nextIndex >= inputs.length) return;
+      event.preventDefault();
+      inputs[nextIndex].focus();
+    }
+
+    // keep arrow keys and other keys in the input
+    event.stopPropagation();
+  }
+
+  function setFilterValue(filterValue: FilterValue | undefined) {
+    onFilterChange?.(column.key, filterValue);
+  }
+
+  return (
+    <div
+      role="gridcell"
+      aria-colindex={column.idx + 1}
+      aria-colspan={colSpan}
+      aria-selected={isCellActive}
+      tabIndex={tabIndex}
+      className={getCellClassname(column)}
+      style={{
+        ...getCellStyle(column, colSpan),
+        gridRowStart: rowIdx,
+        insetBlockStart: getHeaderRowsHeight(rowIdx - 1)
+      }}
+      onMouseDown={onMouseDown}
+      onFocus={onFocus}
+      onKeyDown={onKeyDown}
+    >
+      {filter?.type === 'facet' ? (
+        <FacetFilter
+          column={column}
+          filter={filter}
+          filterValue={filterValue}
+          label={label}
+          inputProps={getInputProps(onFilterChange == null)}
+          rows={rows}
+          filters={filters}
+          columns={columns}
+          setFilterValue={setFilterValue}
+        />
+      ) : (
+        filter != null &&
+        renderFilterInput(filter, filterValue, label, onFilterChange == null, setFilterValue)
+      )}
+    </div>
+  );
+}
+
+function getNumber(input: HTMLInputElement) {
+  const { valueAsNumber } = input;
+  return Number.isNaN(valueAsNumber) ? undefined : valueAsNumber;
+}
+
+// inputs are focused by pressing Enter on the cell, so they are never tabbable
+function getInputProps(disabled: boolean) {
+  return { className: filterInputClassname, tabIndex: -1, disabled };
+}
+
+function renderFilterInput<R>(
+  filter: Exclude<ColumnFilter<R>, { type: 'facet' }>,
+  filterValue: FilterValue | undefined,
+  label: string,
+  disabled: boolean,
+  setFilterValue: (filterValue: FilterValue | undefined) => void
+) {
+  const inputProps = getInputProps(disabled);
+
+  switch (filter.type) {
+    case 'text': {
+      const text = filterValue?.type === 'text' ? filterValue.text : '';
+      return (
+        <input
+          {...inputProps}
+          type="search"
+          aria-label={`Filter ${label}`}
+          value={text}
+          onChange={(event) => setFilterValue({ type: 'text', text: event.target.value })}
+        />
+      );
+    }
+    case 'number': {
+      const { min, max } = filterValue?.type === 'number' ? filterValue : {};
+      return (
+        <div className={filterRange}>
+          <input
+            {...inputProps}
+            type="number"
+            aria-label={`${label} minimum`}
+            placeholder="Min"
+            value={min ?? ''}
+            onChange={(event) =>
+              setFilterValue({ type: 'number', min: getNumber(event.target), max })
+            }
+          />
+          <input
+            {...inputProps}
+            type="number"
+            aria-label={`${label} maximum`}
+            placeholder="Max"
+            value={max ?? ''}
+            onChange={(event) =>
+              setFilterValue({ type: 'number', min, max: getNumber(event.target) })
+            }
+          />
+        </div>
+      );
+    }
+    case 'date': {
+      const { from, to } = filterValue?.type === 'date' ? filterValue : {};
+      return (
+        <div className={filterRange}>
+          <input
+            {...inputProps}
+            type="date"
+            aria-label={`${label} from`}
+            value={from ?? ''}
+            max={to}
+            onChange={(event) => setFilterValue({ type: 'date', from: event.target.value, to })}
+          />
+          <input
+            {...inputProps}
+            type="date"
+            aria-label={`${label} to`}
+            value={to ?? ''}
+            min={from}
+            onChange={(event) => setFilterValue({ type: 'date', from, to: event.target.value })}
+          />
+        </div>
+      );
+    }
+    case 'set':
+    default: {
+      const { options } = filter;
+      const selectedIndex =
+        filterValue?.type === 'set' && filterValue.values.length === 1
+          ? options.findIndex((option) => Object.is(option.value, filterValue.values[0]))
+          : -1;
+      return (
+        <select
+          {...inputProps}
+          aria-label={`Filter ${label}`}
+          value={selectedIndex}
+          onChange={(event) => {
+            const index = Number(event.target.value);
+            setFilterValue(
+              index === -1 ? undefined : { type: 'set', values: [options[index].value] }
+            );
+          }}
+        >
+          <option value={-1}>All</option>
+          {options.map((option, index) => (
+            <option key={index} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+  }
+}
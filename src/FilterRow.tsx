@@ -0,0 +1,105 @@
+import { memo } from 'react';
+import { css } from 'ecij';
+
+import { classnames, isEmptyFilterValue } from './utils';
+import type {
+  ColumnOrColumnGroup,
+  Filters,
+  FilterValue,
+  IterateOverViewportColumnsForRow,
+  Position
+} from './types';
+import type { DataGridProps } from './DataGrid';
+import FilterCell from './FilterCell';
+import { cell, cellFrozen } from './style/cell';
+import { rowActiveClassname } from './style/row';
+
+type SharedDataGridProps<R, SR, K extends React.Key> = Pick<
+  DataGridProps<R, SR, K>,
+  'rows' | 'onFiltersChange'
+>;
+
+export interface FilterRowProps<R, SR, K extends React.Key> extends SharedDataGridProps<R, SR, K> {
+  rowIdx: number;
+  iterateOverViewportColumnsForRow: IterateOverViewportColumnsForRow<R, SR>;
+  activeCellIdx: number | undefined;
+  setPosition: (position: Position) => void;
+  filters: Filters;
+  columns: readonly ColumnOrColumnGroup<R, SR>[];
+}
+
+const filterRow = css`
+  @layer rdg.FilterRow {
+    display: contents;
+    background-color: var(--rdg-header-background-color);
+
+    & > .${cell} {
+      /* render above regular rows like header cells */
+      z-index: 2;
+      position: sticky;
+      padding-inline: 4px;
+    }
+
+    & > .${cellFrozen} {
+      z-index: 3;
+    }
+  }
+`;
+
+const filterRowClassname = `rdg-filter-row ${filterRow}`;
+
+function FilterRow<R, SR, K extends React.Key>({
+  rowIdx,
+  iterateOverViewportColumnsForRow,
+  activeCellIdx,
+  setPosition,
+  filters,
+  columns,
+  rows,
+  onFiltersChange
+}: FilterRowProps<R, SR, K>) {
+  const isPositionOnRow = activeCellIdx === -1;
+
+  function onFilterChange(columnKey: string, filterValue: FilterValue | undefined) {
+    const newFilters = new Map(filters);
+    // remove empty filters so they do not show up in `filters`
+    if (filterValue === undefined || isEmptyFilterValue(filterValue)) {
+      newFilters.delete(columnKey);
+    } else {
+      newFilters.set(columnKey, filterValue);
+    }
+    onFiltersChange?.(newFilters);
+  }
+
+  const cells = iterateOverViewportColumnsForRow(activeCellIdx, { type: 'HEADER' })
+    .map(([column, isCellActive, colSpan]) => (
+      <FilterCell<R, SR>
+        key={column.key}
+        column={column}
+        colSpan={colSpan}
+        rowIdx={rowIdx}
+        isCellActive={isCellActive}
+        filterValue={filters.get(column.key)}
+        rows={rows}
+        filters={filters}
+        columns={columns}
+        onFilterChange={onFiltersChange == null ? undefined : onFilterChange}
+        setPosition={setPosition}
+      />
+    ))
+    .toArray();
+
+  return (
+    <div
+      role="row"
+      aria-rowindex={rowIdx} // aria-rowindex is 1 based
+      className={classnames(filterRowClassname, isPositionOnRow && rowActiveClassname)}
+    >
+      {cells}
+    </div>
+  );
+}
+
+export default memo(FilterRow) as <R, SR, K extends React.Key>(
+  props: FilterRowProps<R, SR, K>
+) => React.JSX.Element;
@@ -6,7 +6,7 @@ import { classnames } from './utils';
 import type { BaseRenderRowProps, GroupRow, Omit } from './types';
 import { SELECT_COLUMN_KEY } from './Columns';
 import GroupCell from './GroupCell';
-import { cell, cellFrozen } from './style/cell';
+import { cell, cellFrozen, cellFrozenEndClassname } from './style/cell';
 import { rowClassname, rowActiveClassname } from './style/row';
 
 const groupRow = css`
@@ -16,7 +16,8 @@ const groupRow = css`
     }
 
     > .${cell}:not(:last-child, .${cellFrozen}),
-    > :nth-last-child(n + 2 of .${cellFrozen}) {
+    > :nth-last-child(n + 2 of .${cellFrozen}:not(.${cellFrozenEndClassname})),
+    > .${cellFrozenEndClassname}:not(:last-child) {
       border-inline-end: none;
     }
   }
@@ -26,7 +27,7 @@ const groupRowClassname = `rdg-group-row ${groupRow}`;
 
 interface GroupRowRendererProps<R, SR> extends Omit<
   BaseRenderRowProps<R, SR>,
-  'isRowSelectionDisabled'
+  'isRowSelectionDisabled' | 'selectCellRange'
 > {
   row: GroupRow<R>;
   groupBy: readonly string[];
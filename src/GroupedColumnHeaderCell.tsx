@@ -1,12 +1,50 @@
-import { useRovingTabIndex } from './hooks';
-import { classnames, getHeaderCellRowSpan, getHeaderCellStyle } from './utils';
+import { css } from 'ecij';
+
+import { useColumnDragAndDrop, useRovingTabIndex } from './hooks';
+import { classnames, getColumnMoveOffset, getHeaderCellRowSpan, getHeaderCellStyle } from './utils';
 import type { CalculatedColumnParent } from './types';
 import type { GroupedColumnHeaderRowProps } from './GroupedColumnHeaderRow';
+import {
+  cellDraggableClassname,
+  cellDraggingClassname,
+  cellOverClassname,
+  getDropIndicatorClassname
+} from './HeaderCell';
 import { cellClassname } from './style/cell';
 
+const collapsibleCell = css`
+  @layer rdg.HeaderCell {
+    cursor: pointer;
+  }
+`;
+
+const collapsibleCellClassname = `rdg-cell-collapsible ${collapsibleCell}`;
+
+const collapseCaret = css`
+  @layer rdg.HeaderCell {
+    margin-inline-start: 4px;
+    stroke: currentColor;
+    stroke-width: 1.5px;
+    fill: transparent;
+    vertical-align: middle;
+
+    &:dir(rtl) {
+      transform: scaleX(-1);
+    }
+  }
+`;
+
 type SharedGroupedColumnHeaderRowProps<R, SR> = Pick<
   GroupedColumnHeaderRowProps<R, SR>,
-  'rowIdx' | 'setPosition'
+  | 'rowIdx'
+  | 'setPosition'
+  | 'draggedColumn'
+  | 'setDraggedColumn'
+  | 'getColumnDropPosition'
+  | 'onColumnDrop'
+  | 'toggleColumnGroup'
+  | 'onColumnMove'
+  | 'direction'
 >;
 
 interface GroupedColumnHeaderCellProps<R, SR> extends SharedGroupedColumnHeaderRowProps<R, SR> {
@@ -18,17 +56,52 @@ export default function GroupedColumnHeaderCell<R, SR>({
   column,
   rowIdx,
   isCellActive,
-  setPosition
+  setPosition,
+  draggedColumn,
+  setDraggedColumn,
+  getColumnDropPosition,
+  onColumnDrop,
+  toggleColumnGroup,
+  onColumnMove,
+  direction
 }: GroupedColumnHeaderCellProps<R, SR>) {
   const { tabIndex, onFocus } = useRovingTabIndex(isCellActive);
+  const { isDragging, dropPosition, dragTargetProps, dropTargetProps } = useColumnDragAndDrop({
+    column,
+    draggedColumn,
+    setDraggedColumn,
+    getColumnDropPosition,
+    onColumnDrop
+  });
   const { colSpan } = column;
   const rowSpan = getHeaderCellRowSpan(column, rowIdx);
   const index = column.idx + 1;
 
+  const { collapsible, collapsed } = column;
+
   function onMouseDown() {
     setPosition({ idx: column.idx, rowIdx });
   }
 
+  function onClick() {
+    if (collapsible) {
+      toggleColumnGroup(column.id!);
+    }
+  }
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    const moveOffset = getColumnMoveOffset(event, direction);
+    if (collapsible && (event.key === ' ' || event.key === 'Enter')) {
+      // prevent scrolling
+      event.preventDefault();
+      toggleColumnGroup(column.id!);
+    } else if (column.draggable && moveOffset !== undefined) {
+      // prevent navigation
+      event.stopPropagation();
+      onColumnMove(column, moveOffset);
+    }
+  }
+
   return (
     <div
       role="columnheader"
@@ -36,8 +109,17 @@ export default function GroupedColumnHeaderCell<R, SR>({
       aria-colspan={colSpan}
       aria-rowspan={rowSpan}
       aria-selected={isCellActive}
+      aria-expanded={collapsible ? !collapsed : undefined}
       tabIndex={tabIndex}
-      className={classnames(cellClassname, column.headerCellClass)}
+      className={classnames(
+        cellClassname,
+        column.headerCellClass,
+        collapsible && collapsibleCellClassname,
+        column.draggable && cellDraggableClassname,
+        isDragging && cellDraggingClassname,
+        dropPosition !== undefined && cellOverClassname,
+        getDropIndicatorClassname(dropPosition)
+      )}
       style={{
         ...getHeaderCellStyle(column, rowIdx, rowSpan),
         gridColumnStart: index,
@@ -45,8 +127,17 @@ export default function GroupedColumnHeaderCell<R, SR>({
       }}
       onFocus={onFocus}
       onMouseDown={onMouseDown}
+      onClick={onClick}
+      onKeyDown={onKeyDown}
+      {...dragTargetProps}
+      {...dropTargetProps}
     >
       {column.name}
+      {collapsible && (
+        <svg viewBox="0 0 8 14" width="8" height="14" className={collapseCaret} aria-hidden>
+          <path d={collapsed ? 'M1 1 L 7 7 L 1 13' : 'M7 1 L 1 7 L 7 13'} />
+        </svg>
+      )}
     </div>
   );
 }
@@ -1,15 +1,27 @@
 import { memo } from 'react';
 
-import type { CalculatedColumnParent, IterateOverViewportColumnsForRow, Position } from './types';
+import type {
+  CalculatedColumnParent,
+  Direction,
+  IterateOverViewportColumnsForRow,
+  Position
+} from './types';
 import GroupedColumnHeaderCell from './GroupedColumnHeaderCell';
-import { headerRowClassname } from './HeaderRow';
+import {
+  headerRowClassname,
+  type ColumnDragAndDropProps,
+  type ColumnMoveHandler
+} from './HeaderRow';
 
-export interface GroupedColumnHeaderRowProps<R, SR> {
+export interface GroupedColumnHeaderRowProps<R, SR> extends ColumnDragAndDropProps<R, SR> {
   rowIdx: number;
   level: number;
   iterateOverViewportColumnsForRow: IterateOverViewportColumnsForRow<R, SR>;
   activeCellIdx: number | undefined;
   setPosition: (position: Position) => void;
+  toggleColumnGroup: (id: string) => void;
+  onColumnMove: ColumnMoveHandler<R, SR>;
+  direction: Direction;
 }
 
 function GroupedColumnHeaderRow<R, SR>({
@@ -17,7 +29,14 @@ function GroupedColumnHeaderRow<R, SR>({
   level,
   iterateOverViewportColumnsForRow,
   activeCellIdx,
-  setPosition
+  setPosition,
+  draggedColumn,
+  setDraggedColumn,
+  getColumnDropPosition,
+  onColumnDrop,
+  toggleColumnGroup,
+  onColumnMove,
+  direction
 }: GroupedColumnHeaderRowProps<R, SR>) {
   const cells = [];
   const renderedParents = new Set<CalculatedColumnParent<R, SR>>();
@@ -41,6 +60,13 @@ function GroupedColumnHeaderRow<R, SR>({
           rowIdx={rowIdx}
           isCellActive={isCellActive}
           setPosition={setPosition}
+          draggedColumn={draggedColumn}
+          setDraggedColumn={setDraggedColumn}
+          getColumnDropPosition={getColumnDropPosition}
+          onColumnDrop={onColumnDrop}
+          toggleColumnGroup={toggleColumnGroup}
+          onColumnMove={onColumnMove}
+          direction={direction}
         />
       );
     }
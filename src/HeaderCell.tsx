@@ -1,19 +1,20 @@
-import { useRef, useState } from 'react';
-import { flushSync } from 'react-dom';
+import { useRef } from 'react';
 import { css } from 'ecij';
 
-import { useRovingTabIndex } from './hooks';
+import { useColumnDragAndDrop, useRovingTabIndex } from './hooks';
+import type { ColumnDropPosition } from './hooks';
 import {
   clampColumnWidth,
   getCellClassname,
   getCellStyle,
+  getColumnMoveOffset,
   getHeaderCellRowSpan,
   getHeaderCellStyle,
   getLeftRightKey,
   isCtrlKeyHeldDown,
   stopPropagation
 } from './utils';
-import type { CalculatedColumn, SortColumn } from './types';
+import type { CalculatedColumn, SortColumn, SortDirection } from './types';
 import type { HeaderRowProps } from './HeaderRow';
 
 const cellSortableClassname = css`
@@ -43,7 +44,7 @@ const resizeHandle = css`
 
 const resizeHandleClassname = `rdg-resize-handle ${resizeHandle}`;
 
-const cellDraggableClassname = 'rdg-cell-draggable';
+export const cellDraggableClassname = 'rdg-cell-draggable';
 
 const cellDraggingOrOver = css`
   @layer rdg.HeaderCell {
@@ -51,9 +52,46 @@ const cellDraggingOrOver = css`
   }
 `;
 
-const cellDraggingClassname = `rdg-cell-dragging ${cellDraggingOrOver}`;
+export const cellDraggingClassname = `rdg-cell-dragging ${cellDraggingOrOver}`;
 
-const cellOverClassname = `rdg-cell-drag-over ${cellDraggingOrOver}`;
+export const cellOverClassname = `rdg-cell-drag-over ${cellDraggingOrOver}`;
+
+const cellDropIndicator = css`
+  @layer rdg.HeaderCell {
+    &::before {
+      content: '';
+      position: absolute;
+      inset-block: 0;
+      inline-size: 2px;
+      background-color: var(--rdg-selection-color);
+      pointer-events: none;
+    }
+  }
+`;
+
+const cellDropIndicatorStart = css`
+  @layer rdg.HeaderCell {
+    &::before {
+      inset-inline-start: 0;
+    }
+  }
+`;
+
+const cellDropIndicatorEnd = css`
+  @layer rdg.HeaderCell {
+    &::before {
+      inset-inline-end: 0;
+    }
+  }
+`;
+
+/** Shows where the dragged column is dropped, before or after the column */
+export function getDropIndicatorClassname(dropPosition: ColumnDropPosition | undefined) {
+  if (dropPosition === undefined) return undefined;
+  return `rdg-cell-drop-indicator ${cellDropIndicator} ${
+    dropPosition === 'start' ? cellDropIndicatorStart : cellDropIndicatorEnd
+  }`;
+}
 
 const dragImageClassname = css`
   @layer rdg.HeaderCell {
@@ -64,16 +102,25 @@ const dragImageClassname = css`
   }
 `;
 
+const ascendingFirstCycle = ['ASC', 'DESC', null] as const;
+const descendingFirstCycle = ['DESC', 'ASC', null] as const;
+
 type SharedHeaderRowProps<R, SR> = Pick<
   HeaderRowProps<R, SR, React.Key>,
   | 'sortColumns'
   | 'onSortColumnsChange'
+  | 'multiSortMode'
   | 'setPosition'
   | 'onColumnResize'
   | 'onColumnResizeEnd'
+  | 'onColumnKeyboardResize'
+  | 'onColumnMove'
   | 'shouldFocusGrid'
   | 'direction'
-  | 'onColumnsReorder'
+  | 'draggedColumn'
+  | 'setDraggedColumn'
+  | 'getColumnDropPosition'
+  | 'onColumnDrop'
 >;
 
 export interface HeaderCellProps<R, SR> extends SharedHeaderRowProps<R, SR> {
@@ -81,8 +128,6 @@ export interface HeaderCellProps<R, SR> extends SharedHeaderRowProps<R, SR> {
   colSpan: number | undefined;
   rowIdx: number;
   isCellActive: boolean;
-  draggedColumnKey: string | undefined;
-  setDraggedColumnKey: (draggedColumnKey: string | undefined) => void;
 }
 
 export default function HeaderCell<R, SR>({
@@ -92,18 +137,28 @@ export default function HeaderCell<R, SR>({
   isCellActive,
   onColumnResize,
   onColumnResizeEnd,
-  onColumnsReorder,
+  onColumnKeyboardResize,
+  onColumnMove,
   sortColumns,
   onSortColumnsChange,
+  multiSortMode,
   setPosition,
   shouldFocusGrid,
   direction,
-  draggedColumnKey,
-  setDraggedColumnKey
+  draggedColumn,
+  setDraggedColumn,
+  getColumnDropPosition,
+  onColumnDrop
 }: HeaderCellProps<R, SR>) {
-  const [isOver, setIsOver] = useState(false);
   const dragImageRef = useRef<HTMLDivElement>(null);
-  const isDragging = draggedColumnKey === column.key;
+  const { isDragging, dropPosition, dragTargetProps, dropTargetProps } = useColumnDragAndDrop({
+    column,
+    draggedColumn,
+    setDraggedColumn,
+    getColumnDropPosition,
+    onColumnDrop,
+    dragImageRef
+  });
   const rowSpan = getHeaderCellRowSpan(column, rowIdx);
   // set the tabIndex to 0 when there is no active cell so grid can receive focus
   const { tabIndex, childTabIndex, onFocus } = useRovingTabIndex(shouldFocusGrid || isCellActive);
@@ -123,43 +178,34 @@ export default function HeaderCell<R, SR>({
     resizable && cellResizableClassname,
     draggable && cellDraggableClassname,
     isDragging && cellDraggingClassname,
-    isOver && cellOverClassname
+    dropPosition !== undefined && cellOverClassname,
+    getDropIndicatorClassname(dropPosition)
   );
 
   function onSort(ctrlClick: boolean) {
     if (onSortColumnsChange == null) return;
-    const { sortDescendingFirst } = column;
-    if (sortColumn === undefined) {
-      // not currently sorted
-      const nextSort: SortColumn = {
-        columnKey: column.key,
-        direction: sortDescendingFirst ? 'DESC' : 'ASC'
-      };
-      onSortColumnsChange(sortColumns && ctrlClick ? [...sortColumns, nextSort] : [nextSort]);
-    } else {
-      let nextSortColumn: SortColumn | undefined;
-      if (
-        (sortDescendingFirst === true && sortDirection === 'DESC') ||
-        (sortDescendingFirst !== true && sortDirection === 'ASC')
-      ) {
-        nextSortColumn = {
-          columnKey: column.key,
-          direction: sortDirection === 'ASC' ? 'DESC' : 'ASC'
-        };
-      }
-      if (ctrlClick) {
-        const nextSortColumns = [...sortColumns!];
-        if (nextSortColumn) {
-          // swap direction
-          nextSortColumns[sortIndex!] = nextSortColumn;
-        } else {
-          // remove sort
-          nextSortColumns.splice(sortIndex!, 1);
-        }
-        onSortColumnsChange(nextSortColumns);
+    const sortCycle =
+      column.sortCycle ?? (column.sortDescendingFirst ? descendingFirstCycle : ascendingFirstCycle);
+    const nextDirection = getNextSortDirection(sortCycle, sortDirection);
+    const nextSortColumn: SortColumn | undefined =
+      nextDirection === null ? undefined : { columnKey: column.key, direction: nextDirection };
+    const isMultiSort = multiSortMode === 'always' || (multiSortMode !== 'never' && ctrlClick);
+
+    if (isMultiSort && sortColumns) {
+      const nextSortColumns = [...sortColumns];
+      if (sortColumn === undefined) {
+        // not currently sorted
+        if (nextSortColumn) nextSortColumns.push(nextSortColumn);
+      } else if (nextSortColumn) {
+        // swap direction
+        nextSortColumns[sortIndex!] = nextSortColumn;
       } else {
-        onSortColumnsChange(nextSortColumn ? [nextSortColumn] : []);
+        // remove sort
+        nextSortColumns.splice(sortIndex!, 1);
       }
+      onSortColumnsChange(nextSortColumns);
+    } else {
+      onSortColumnsChange(nextSortColumn ? [nextSortColumn] : []);
     }
   }
 
@@ -183,13 +229,19 @@ export default function HeaderCell<R, SR>({
 
   function onKeyDown(event: React.KeyboardEvent<HTMLSpanElement>) {
     const { key } = event;
+    const moveOffset = getColumnMoveOffset(event, direction);
     if (sortable && (key === ' ' || key === 'Enter')) {
       // prevent scrolling
       event.preventDefault();
       onSort(event.ctrlKey || event.metaKey);
+    } else if (draggable && moveOffset !== undefined) {
+      // prevent navigation
+      event.stopPropagation();
+      onColumnMove(column, moveOffset);
     } else if (
       resizable &&
       isCtrlKeyHeldDown(event) &&
+      !event.shiftKey &&
       (key === 'ArrowLeft' || key === 'ArrowRight')
     ) {
       // prevent navigation
@@ -200,68 +252,11 @@ export default function HeaderCell<R, SR>({
       const offset = key === leftKey ? -10 : 10;
       const newWidth = clampColumnWidth(width + offset, column);
       if (newWidth !== width) {
-        onColumnResize(column, newWidth);
+        onColumnKeyboardResize(column, newWidth);
       }
     }
   }
 
-  function onDragStart(event: React.DragEvent<HTMLDivElement>) {
-    // need flushSync to make sure the drag image is rendered before the drag starts
-    flushSync(() => {
-      setDraggedColumnKey(column.key);
-    });
-    event.dataTransfer.setDragImage(dragImageRef.current!, 0, 0);
-    event.dataTransfer.dropEffect = 'move';
-  }
-
-  function onDragEnd() {
-    setDraggedColumnKey(undefined);
-  }
-
-  function onDragOver(event: React.DragEvent<HTMLDivElement>) {
-    // prevent default to allow drop
-    event.preventDefault();
-    event.dataTransfer.dropEffect = 'move';
-  }
-
-  function onDrop(event: React.DragEvent<HTMLDivElement>) {
-    setIsOver(false);
-    // prevent the browser from redirecting in some cases
-    event.preventDefault();
-    onColumnsReorder?.(draggedColumnKey!, column.key);
-  }
-
-  function onDragEnter(event: React.DragEvent<HTMLDivElement>) {
-    if (isEventPertinent(event)) {
-      setIsOver(true);
-    }
-  }
-
-  function onDragLeave(event: React.DragEvent<HTMLDivElement>) {
-    if (isEventPertinent(event)) {
-      setIsOver(false);
-    }
-  }
-
-  let dragTargetProps: React.ComponentProps<'div'> | undefined;
-  let dropTargetProps: React.ComponentProps<'div'> | undefined;
-  if (draggable) {
-    dragTargetProps = {
-      draggable: true,
-      onDragStart,
-      onDragEnd
-    };
-
-    if (draggedColumnKey !== undefined && draggedColumnKey !== column.key) {
-      dropTargetProps = {
-        onDragOver,
-        onDragEnter,
-        onDragLeave,
-        onDrop
-      };
-    }
-  }
-
   const style: React.CSSProperties = {
     ...getHeaderCellStyle(column, rowIdx, rowSpan),
     ...getCellStyle(column, colSpan)
@@ -381,11 +376,17 @@ function ResizeHandle<R, SR>({
   );
 }
 
-// only accept pertinent drag events:
-// - ignore drag events going from the container to an element inside the container
-// - ignore drag events going from an element inside the container to the container
-function isEventPertinent(event: React.DragEvent) {
-  const relatedTarget = event.relatedTarget as HTMLElement | null;
-
-  return !event.currentTarget.contains(relatedTarget);
+/**
+ * Returns the direction following the current direction in the sort cycle,
+ * or the first direction of the cycle when the column is not sorted
+ */
+function getNextSortDirection(
+  sortCycle: readonly (SortDirection | null)[],
+  sortDirection: SortDirection | undefined
+): SortDirection | null {
+  const index = sortDirection === undefined ? -1 : sortCycle.indexOf(sortDirection);
+  if (index === -1) {
+    return sortCycle.find((direction) => direction !== null) ?? null;
+  }
+  return sortCycle[(index + 1) % sortCycle.length];
 }
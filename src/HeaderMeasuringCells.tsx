@@ -0,0 +1,128 @@
+import { css } from 'ecij';
+
+import { classnames, getCellClassname } from './utils';
+import type {
+  CalculatedColumn,
+  CalculatedColumnParent,
+  Maybe,
+  SortColumn,
+  SortDirection
+} from './types';
+import { headerRowClassname } from './HeaderRow';
+import { cellClassname } from './style/cell';
+
+const headerMeasuringCells = css`
+  @layer rdg.MeasuringCell {
+    position: absolute;
+    inset-block-start: 0;
+    inset-inline-start: 0;
+    inline-size: 0;
+    block-size: 0;
+    display: grid;
+    grid-template-columns: inherit;
+    align-items: start;
+    overflow: hidden;
+    visibility: hidden;
+    contain: strict;
+    pointer-events: none;
+  }
+`;
+
+interface HeaderMeasuringCellsProps<R, SR> {
+  viewportColumns: readonly CalculatedColumn<R, SR>[];
+  columnHeaderRowsCount: number;
+  sortColumns: Maybe<readonly SortColumn[]>;
+  observeMeasuringCell: (cell: HTMLDivElement) => () => void;
+}
+
+/**
+ * Renders hidden copies of the header cells of the viewport columns, and of their column groups,
+ * with the width of their columns, so the height of their wrapped content can be measured by `useHeaderRowHeights`
+ */
+export default function HeaderMeasuringCells<R, SR>({
+  viewportColumns,
+  columnHeaderRowsCount,
+  sortColumns,
+  observeMeasuringCell
+}: HeaderMeasuringCellsProps<R, SR>) {
+  const mainHeaderRowIdx = columnHeaderRowsCount - 1;
+  const parents = new Set<CalculatedColumnParent<R, SR>>();
+
+  for (const column of viewportColumns) {
+    let { parent } = column;
+    while (parent !== undefined) {
+      parents.add(parent);
+      ({ parent } = parent);
+    }
+  }
+
+  return (
+    <div className={headerMeasuringCells}>
+      <div className={headerRowClassname}>
+        {[...parents].map((parent) => {
+          // the levels of column groups are negative, counting up to the main header row
+          const rowIdx = mainHeaderRowIdx + parent.level;
+
+          return (
+            <div
+              key={`${rowIdx}-${parent.idx}`}
+              ref={observeMeasuringCell}
+              className={classnames(cellClassname, parent.headerCellClass)}
+              style={{
+                gridColumn: `${parent.idx + 1} / span ${parent.colSpan}`,
+                gridRow: rowIdx + 1
+              }}
+              data-measuring-header-row-idx={rowIdx}
+            >
+              {parent.name}
+            </div>
+          );
+        })}
+        {viewportColumns.map((column) => {
+          const sortIndex = sortColumns?.findIndex((sort) => sort.columnKey === column.key) ?? -1;
+          const sortColumn = sortIndex === -1 ? undefined : sortColumns![sortIndex];
+
+          return (
+            <HeaderMeasuringCell
+              key={column.key}
+              column={column}
+              rowIdx={mainHeaderRowIdx}
+              sortDirection={sortColumn?.direction}
+              priority={
+                sortColumn !== undefined && sortColumns!.length > 1 ? sortIndex + 1 : undefined
+              }
+              observeMeasuringCell={observeMeasuringCell}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface HeaderMeasuringCellProps<R, SR> {
+  column: CalculatedColumn<R, SR>;
+  rowIdx: number;
+  sortDirection: SortDirection | undefined;
+  priority: number | undefined;
+  observeMeasuringCell: (cell: HTMLDivElement) => () => void;
+}
+
+function HeaderMeasuringCell<R, SR>({
+  column,
+  rowIdx,
+  sortDirection,
+  priority,
+  observeMeasuringCell
+}: HeaderMeasuringCellProps<R, SR>) {
+  return (
+    <div
+      ref={observeMeasuringCell}
+      className={getCellClassname(column, column.headerCellClass)}
+      style={{ gridColumnStart: column.idx + 1, gridRow: rowIdx + 1 }}
+      data-measuring-header-row-idx={rowIdx}
+    >
+      {column.renderHeaderCell({ column, sortDirection, priority, tabIndex: -1 })}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import { memo, useState } from 'react';
+import { memo } from 'react';
 import { css } from 'ecij';
 
+import type { ColumnDragAndDropArgs } from './hooks';
 import { classnames } from './utils';
 import type {
   CalculatedColumn,
+  CalculatedColumnOrColumnGroup,
   Direction,
   IterateOverViewportColumnsForRow,
   Maybe,
@@ -17,14 +19,29 @@ import { rowActiveClassname } from './style/row';
 
 type SharedDataGridProps<R, SR, K extends React.Key> = Pick<
   DataGridProps<R, SR, K>,
-  'sortColumns' | 'onSortColumnsChange' | 'onColumnsReorder'
+  'sortColumns' | 'onSortColumnsChange' | 'multiSortMode'
 >;
 
-export interface HeaderRowProps<R, SR, K extends React.Key> extends SharedDataGridProps<R, SR, K> {
+export type ColumnDragAndDropProps<R, SR> = Pick<
+  ColumnDragAndDropArgs<R, SR>,
+  'draggedColumn' | 'setDraggedColumn' | 'getColumnDropPosition' | 'onColumnDrop'
+>;
+
+/** Moves the column, or column group, next to its sibling with the keyboard */
+export type ColumnMoveHandler<R, SR> = (
+  column: CalculatedColumnOrColumnGroup<R, SR>,
+  offset: -1 | 1
+) => void;
+
+export interface HeaderRowProps<R, SR, K extends React.Key>
+  extends SharedDataGridProps<R, SR, K>, ColumnDragAndDropProps<R, SR> {
   rowIdx: number;
   iterateOverViewportColumnsForRow: IterateOverViewportColumnsForRow<R, SR>;
   onColumnResize: (column: CalculatedColumn<R, SR>, width: ResizedWidth) => void;
   onColumnResizeEnd: () => void;
+  /** Resizes the column with the keyboard, the resize ends immediately */
+  onColumnKeyboardResize: (column: CalculatedColumn<R, SR>, width: number) => void;
+  onColumnMove: ColumnMoveHandler<R, SR>;
   activeCellIdx: number | undefined;
   setPosition: (position: Position) => void;
   shouldFocusGrid: boolean;
@@ -52,21 +69,35 @@ const headerRow = css`
 
 export const headerRowClassname = `rdg-header-row ${headerRow}`;
 
+// header cells wrap their content when the header rows are sized to their content
+export const autoHeightHeaderRowsClassname = css`
+  @layer rdg.HeaderRow {
+    & .${headerRow} > .${cell} {
+      white-space: normal;
+    }
+  }
+`;
+
 function HeaderRow<R, SR, K extends React.Key>({
   headerRowClass,
   rowIdx,
   iterateOverViewportColumnsForRow,
   onColumnResize,
   onColumnResizeEnd,
-  onColumnsReorder,
+  onColumnKeyboardResize,
+  onColumnMove,
   sortColumns,
   onSortColumnsChange,
+  multiSortMode,
   activeCellIdx,
   setPosition,
   shouldFocusGrid,
-  direction
+  direction,
+  draggedColumn,
+  setDraggedColumn,
+  getColumnDropPosition,
+  onColumnDrop
 }: HeaderRowProps<R, SR, K>) {
-  const [draggedColumnKey, setDraggedColumnKey] = useState<string>();
   const isPositionOnRow = activeCellIdx === -1;
 
   const cells = iterateOverViewportColumnsForRow(activeCellIdx, { type: 'HEADER' })
@@ -79,14 +110,18 @@ function HeaderRow<R, SR, K extends React.Key>({
         isCellActive={isCellActive}
         onColumnResize={onColumnResize}
         onColumnResizeEnd={onColumnResizeEnd}
-        onColumnsReorder={onColumnsReorder}
+        onColumnKeyboardResize={onColumnKeyboardResize}
+        onColumnMove={onColumnMove}
         onSortColumnsChange={onSortColumnsChange}
         sortColumns={sortColumns}
+        multiSortMode={multiSortMode}
         setPosition={setPosition}
         shouldFocusGrid={shouldFocusGrid && index === 0}
         direction={direction}
-        draggedColumnKey={draggedColumnKey}
-        setDraggedColumnKey={setDraggedColumnKey}
+        draggedColumn={draggedColumn}
+        setDraggedColumn={setDraggedColumn}
+        getColumnDropPosition={getColumnDropPosition}
+        onColumnDrop={onColumnDrop}
       />
     ))
     .toArray();
@@ -1,7 +1,7 @@
 import { memo, useMemo } from 'react';
 
 import { RowSelectionContext, type RowSelectionContextValue } from './hooks';
-import { classnames } from './utils';
+import { classnames, isCellInCellRange } from './utils';
 import type { RenderRowProps } from './types';
 import { useDefaultRenderers } from './DataGridDefaultRenderersContext';
 import { rowClassname, rowActiveClassname } from './style/row';
@@ -13,7 +13,8 @@ function Row<R, SR>({
   activeCellIdx,
   isRowSelectionDisabled,
   isRowSelected,
-  draggedOverCellIdx,
+  draggedOverCellRange,
+  selectedCellRange,
   row,
   iterateOverViewportColumnsForRow,
   activeCellEditor,
@@ -25,6 +26,7 @@ function Row<R, SR>({
   rowClass,
   onRowChange,
   setActivePosition,
+  selectCellRange,
   style,
   ...props
 }: RenderRowProps<R, SR>) {
@@ -51,14 +53,22 @@ function Row<R, SR>({
         colSpan,
         row,
         rowIdx,
-        isDraggedOver: draggedOverCellIdx === column.idx,
+        isDraggedOver:
+          draggedOverCellRange !== undefined &&
+          isCellInCellRange(draggedOverCellRange, column.idx, colSpan),
         isCellActive,
+        selectedCellRange:
+          selectedCellRange !== undefined &&
+          isCellInCellRange(selectedCellRange, column.idx, colSpan)
+            ? selectedCellRange
+            : undefined,
         onCellMouseDown,
         onCellClick,
         onCellDoubleClick,
         onCellContextMenu,
         onRowChange,
-        setActivePosition
+        setActivePosition,
+        selectCellRange
       });
     })
     .toArray();
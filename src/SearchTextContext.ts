@@ -0,0 +1,8 @@
+import { createContext, use } from 'react';
+
+export const SearchTextContext = createContext('');
+SearchTextContext.displayName = 'SearchTextContext';
+
+export function useSearchText(): string {
+  return use(SearchTextContext);
+}
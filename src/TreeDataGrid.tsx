@@ -27,7 +27,22 @@ import { defaultRenderRow } from './Row';
 
 export interface TreeDataGridProps<R, SR = unknown, K extends Key = Key> extends Omit<
   DataGridProps<R, SR, K>,
-  'columns' | 'role' | 'aria-rowcount' | 'rowHeight' | 'onFill' | 'isRowSelectionDisabled'
+  | 'columns'
+  | 'role'
+  | 'aria-rowcount'
+  | 'rowHeight'
+  | 'onFill'
+  | 'isRowSelectionDisabled'
+  | 'selectedCellRange'
+  | 'onSelectedCellRangeChange'
+  | 'createPastedRow'
+  | 'enableInternalSorting'
+  | 'topPinnedRowKeys'
+  | 'bottomPinnedRowKeys'
+  | 'onRowsReorder'
+  | 'onRowsDrop'
+  | 'canDropRows'
+  | 'enableRowsDragOut'
 > {
   columns: readonly Column<NoInfer<R>, NoInfer<SR>>[];
   rowHeight?: Maybe<number | ((args: RowHeightArgs<NoInfer<R>>) => number)>;
@@ -330,7 +345,9 @@ export function TreeDataGrid<R, SR = unknown, K extends Key = Key>({
     { row, column }: CellCopyArgs<NoInfer<R>, NoInfer<SR>>,
     event: CellClipboardEvent
   ) {
-    if (!isGroupRow(row)) {
+    if (isGroupRow(row)) {
+      event.preventDefault();
+    } else {
       rawOnCellCopy?.({ row, column }, event);
     }
   }
@@ -342,18 +359,29 @@ export function TreeDataGrid<R, SR = unknown, K extends Key = Key>({
     return isGroupRow(row) ? row : rawOnCellPaste!({ row, column }, event);
   }
 
-  function handleRowsChange(updatedRows: R[], { indexes, column }: RowsChangeData<R, SR>) {
+  function handleRowsChange(
+    updatedRows: R[],
+    { indexes, column, source, changes }: RowsChangeData<R, SR>
+  ) {
     if (!onRowsChange) return;
     const updatedRawRows = [...rawRows];
-    const rawIndexes: number[] = [];
+    const rawIndexes = new Map<number, number>();
+    const rawRowIndexes = new Map(rawRows.map((row, rawIndex) => [row, rawIndex]));
     for (const index of indexes) {
-      const rawIndex = rawRows.indexOf(rows[index] as R);
+      // pasted content may span group rows
+      if (isGroupRow(rows[index])) continue;
+      const rawIndex = rawRowIndexes.get(rows[index])!;
       updatedRawRows[rawIndex] = updatedRows[index];
-      rawIndexes.push(rawIndex);
+      rawIndexes.set(index, rawIndex);
     }
+    if (rawIndexes.size === 0) return;
     onRowsChange(updatedRawRows, {
-      indexes: rawIndexes,
-      column
+      indexes: [...rawIndexes.values()],
+      column,
+      source,
+      changes: changes
+        .filter((change) => rawIndexes.has(change.rowIdx))
+        .map((change) => ({ ...change, rowIdx: rawIndexes.get(change.rowIdx)! }))
     });
   }
 
@@ -377,7 +405,9 @@ export function TreeDataGrid<R, SR = unknown, K extends Key = Key>({
       onCellDoubleClick,
       onCellContextMenu,
       onRowChange,
-      draggedOverCellIdx,
+      draggedOverCellRange,
+      selectedCellRange,
+      selectCellRange,
       activeCellEditor,
       isRowSelectionDisabled,
       isTreeGrid,
@@ -416,7 +446,9 @@ export function TreeDataGrid<R, SR = unknown, K extends Key = Key>({
       onCellDoubleClick,
       onCellContextMenu,
       onRowChange,
-      draggedOverCellIdx,
+      draggedOverCellRange,
+      selectedCellRange,
+      selectCellRange,
       activeCellEditor,
       isRowSelectionDisabled,
       isTreeGrid
@@ -432,6 +464,8 @@ export function TreeDataGrid<R, SR = unknown, K extends Key = Key>({
       }
       columns={columns}
       rows={rows as R[]} // TODO: check types
+      // facet filters list the values of the rows, not of the group rows
+      unfilteredRows={props.unfilteredRows ?? rawRows}
       rowHeight={rowHeight}
       rowKeyGetter={rowKeyGetter}
       onRowsChange={handleRowsChange}
@@ -1,5 +1,56 @@
+import { css } from 'ecij';
+
+import { getCellValue } from '../utils';
 import type { RenderCellProps } from '../types';
+import { useSearchText } from '../SearchTextContext';
+
+const searchMatch = css`
+  @layer rdg.SearchMatch {
+    color: inherit;
+    background-color: var(--rdg-search-match-background-color);
+  }
+`;
+
+const searchMatchClassname = `rdg-search-match ${searchMatch}`;
 
 export function renderValue<R, SR>(props: RenderCellProps<R, SR>) {
-  return props.row?.[props.column.key as keyof R] as React.ReactNode;
+  const value = getCellValue(props.column, props.row) as React.ReactNode;
+  const { formatValue } = props.column;
+
+  if (formatValue != null && value != null) {
+    return <SearchHighlight text={formatValue(value)} />;
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint') {
+    return <SearchHighlight text={String(value)} />;
+  }
+
+  return value;
+}
+
+// highlights the parts of the text matching the `searchText` prop
+function SearchHighlight({ text }: { text: string }) {
+  const searchText = useSearchText().toLocaleLowerCase();
+  if (searchText === '') return text;
+
+  const normalizedText = text.toLocaleLowerCase();
+  const parts: React.ReactNode[] = [];
+  let startIdx = 0;
+  let matchIdx = normalizedText.indexOf(searchText);
+
+  while (matchIdx !== -1) {
+    const endIdx = matchIdx + searchText.length;
+    parts.push(
+      text.slice(startIdx, matchIdx),
+      <mark key={matchIdx} className={searchMatchClassname}>
+        {text.slice(matchIdx, endIdx)}
+      </mark>
+    );
+    startIdx = endIdx;
+    matchIdx = normalizedText.indexOf(searchText, startIdx);
+  }
+
+  if (startIdx === 0) return text;
+  parts.push(text.slice(startIdx));
+  return parts;
 }
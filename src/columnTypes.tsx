@@ -0,0 +1,133 @@
+import {
+  compareValues,
+  getCellValue,
+  getDayNumber,
+  getUTCDate,
+  parseDate,
+  parseNumber,
+  setCellValue
+} from './utils';
+import type { ColumnType, Maybe, RenderCellProps } from './types';
+import { SelectCellFormatter } from './cellRenderers';
+import { renderTextEditor } from './editors/renderTextEditor';
+import {
+  renderBooleanEditor,
+  renderDateEditor,
+  renderNumberEditor
+} from './editors/renderValueEditors';
+
+const numberFormat = new Intl.NumberFormat();
+// the calendar days are UTC dates
+const dateFormat = new Intl.DateTimeFormat(undefined, { timeZone: 'UTC' });
+
+function formatNumber(value: unknown): string {
+  return typeof value === 'number' || typeof value === 'bigint'
+    ? numberFormat.format(value)
+    : String(value);
+}
+
+function formatDate(value: unknown): string {
+  const date = getUTCDate(value);
+  return date === undefined ? String(value) : dateFormat.format(date);
+}
+
+function parseBoolean(text: string) {
+  switch (text.trim().toLowerCase()) {
+    case 'true':
+    case 'yes':
+    case '1':
+      return true;
+    case 'false':
+    case 'no':
+    case '0':
+    case '':
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+function compareDates(a: unknown, b: unknown): number {
+  const aDay = getDayNumber(a);
+  const bDay = getDayNumber(b);
+  if (aDay === undefined || bDay === undefined) return compareValues(a, b);
+  return aDay - bDay;
+}
+
+function BooleanCell<R, SR>({
+  row,
+  column,
+  tabIndex,
+  isCellEditable,
+  onRowChange
+}: RenderCellProps<R, SR>) {
+  return (
+    <SelectCellFormatter
+      aria-label={typeof column.name === 'string' ? column.name : undefined}
+      tabIndex={tabIndex}
+      disabled={!isCellEditable}
+      value={getCellValue(column, row) === true}
+      onChange={(checked) => onRowChange(setCellValue(column, row, checked))}
+    />
+  );
+}
+
+/** The built-in column types, values are formatted with the locale of the browser */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const defaultColumnTypes: Readonly<Record<string, ColumnType<any, any>>> = {
+  string: {
+    renderEditCell: renderTextEditor
+  },
+  number: {
+    align: 'end',
+    formatValue: formatNumber,
+    parseValue: parseNumber,
+    renderEditCell: renderNumberEditor
+  },
+  date: {
+    formatValue: formatDate,
+    parseValue: parseDate,
+    compareValues: compareDates,
+    renderEditCell: renderDateEditor
+  },
+  boolean: {
+    align: 'center',
+    parseValue: parseBoolean,
+    renderCell(props) {
+      return <BooleanCell {...props} />;
+    },
+    renderEditCell: renderBooleanEditor
+  }
+};
+
+/** Returns the column type with the given name, custom types take precedence over the built-in types */
+export function getColumnType<R, SR>(
+  type: string,
+  columnTypes: Maybe<Readonly<Record<string, ColumnType<R, SR>>>>
+): ColumnType<R, SR> | undefined {
+  return columnTypes?.[type] ?? defaultColumnTypes[type];
+}
+
+/**
+ * Creates a column type formatting numbers as amounts of the currency, with the locale of the browser.
+ * The currency symbol is ignored when the values are parsed
+ */
+export function createCurrencyColumnType<R, SR = unknown>(currency: string): ColumnType<R, SR> {
+  const currencyFormat = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+  const currencySymbol = currencyFormat
+    .formatToParts(1)
+    .find((part) => part.type === 'currency')?.value;
+
+  return {
+    align: 'end',
+    formatValue(value) {
+      return typeof value === 'number' || typeof value === 'bigint'
+        ? currencyFormat.format(value)
+        : String(value);
+    },
+    parseValue(text) {
+      return parseNumber(currencySymbol === undefined ? text : text.replace(currencySymbol, ''));
+    },
+    renderEditCell: renderNumberEditor
+  };
+}
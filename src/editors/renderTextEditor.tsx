@@ -1,5 +1,6 @@
 import { css } from 'ecij';
 
+import { getCellValue, setCellValue } from '../utils';
 import type { RenderEditCellProps } from '../types';
 
 const textEditorInternalClassname = css`
@@ -33,7 +34,7 @@ const textEditorInternalClassname = css`
 
 export const textEditorClassname = `rdg-text-editor ${textEditorInternalClassname}`;
 
-function autoFocusAndSelect(input: HTMLInputElement | null) {
+export function autoFocusAndSelect(input: HTMLInputElement | null) {
   input?.focus();
   input?.select();
 }
@@ -48,8 +49,8 @@ export function renderTextEditor<TRow, TSummaryRow>({
     <input
       className={textEditorClassname}
       ref={autoFocusAndSelect}
-      value={row[column.key as keyof TRow] as unknown as string}
-      onChange={(event) => onRowChange({ ...row, [column.key]: event.target.value })}
+      value={getCellValue(column, row) as string}
+      onChange={(event) => onRowChange(setCellValue(column, row, event.target.value))}
       onBlur={() => onClose(true, false)}
     />
   );
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+
+import { getCellValue, getDateString, getNumberInputValue, setCellValue } from '../utils';
+import type { RenderEditCellProps } from '../types';
+import { autoFocusAndSelect, textEditorClassname } from './renderTextEditor';
+import { SelectCellFormatter } from '../cellRenderers';
+
+interface ValueEditorProps<TRow, TSummaryRow> extends RenderEditCellProps<TRow, TSummaryRow> {
+  type: 'text' | 'date';
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+  getInputValue: (value: unknown) => string;
+}
+
+// the typed text is kept as is, and the row is only updated when the text is a valid value
+function ValueEditor<TRow, TSummaryRow>({
+  row,
+  column,
+  onRowChange,
+  onClose,
+  type,
+  inputMode,
+  getInputValue
+}: ValueEditorProps<TRow, TSummaryRow>) {
+  const [text, setText] = useState(() => getInputValue(getCellValue(column, row)));
+
+  function handleChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const text = event.target.value;
+    const value = column.parseValue == null ? text : column.parseValue(text);
+    setText(text);
+
+    if (value !== undefined) {
+      onRowChange(setCellValue(column, row, value));
+    }
+  }
+
+  return (
+    <input
+      className={textEditorClassname}
+      ref={autoFocusAndSelect}
+      type={type}
+      inputMode={inputMode}
+      value={text}
+      onChange={handleChange}
+      onBlur={() => onClose(true, false)}
+    />
+  );
+}
+
+export function renderNumberEditor<TRow, TSummaryRow>(
+  props: RenderEditCellProps<TRow, TSummaryRow>
+) {
+  return (
+    <ValueEditor {...props} type="text" inputMode="decimal" getInputValue={getNumberInputValue} />
+  );
+}
+
+export function renderDateEditor<TRow, TSummaryRow>(props: RenderEditCellProps<TRow, TSummaryRow>) {
+  return (
+    <ValueEditor {...props} type="date" getInputValue={(value) => getDateString(value) ?? ''} />
+  );
+}
+
+function focusCheckbox(element: HTMLDivElement | null) {
+  element?.querySelector('input')?.focus();
+}
+
+export function renderBooleanEditor<TRow, TSummaryRow>({
+  row,
+  column,
+  onRowChange
+}: RenderEditCellProps<TRow, TSummaryRow>) {
+  return (
+    // the checkbox renderer does not forward refs
+    <div ref={focusCheckbox}>
+      <SelectCellFormatter
+        aria-label={typeof column.name === 'string' ? column.name : undefined}
+        value={getCellValue(column, row) === true}
+        onChange={(checked) => onRowChange(setCellValue(column, row, checked))}
+      />
+    </div>
+  );
+}
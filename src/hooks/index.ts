@@ -1,9 +1,15 @@
 export * from './useActivePosition';
 export * from './useCalculatedColumns';
+export * from './useColumnDragAndDrop';
 export * from './useColumnWidths';
+export * from './useFacets';
 export * from './useGridDimensions';
+export * from './useGridHistory';
+export * from './useGridState';
+export * from './useHeaderRowHeights';
 export * from './useLatestFunc';
 export * from './useRovingTabIndex';
+export * from './useRowDragStart';
 export * from './useRowSelection';
 export * from './useScrollState';
 export * from './useScrollToPosition';
@@ -1,7 +1,7 @@
 import { useLayoutEffect, useRef, useState } from 'react';
 
 import { focusCell, focusRow } from '../utils';
-import type { CalculatedColumn, Position, StateSetter } from '../types';
+import type { CalculatedColumn, CellRange, Position, StateSetter } from '../types';
 
 export interface ActivePosition extends Position {
   readonly mode: 'ACTIVE';
@@ -28,7 +28,7 @@ export function useActivePosition<R, SR>({
   maxColIdx,
   minRowIdx,
   maxRowIdx,
-  setDraggedOverRowIdx
+  setDraggedOverCellRange
 }: {
   gridRef: React.RefObject<HTMLDivElement | null>;
   columns: readonly CalculatedColumn<R, SR>[];
@@ -37,7 +37,7 @@ export function useActivePosition<R, SR>({
   maxColIdx: number;
   minRowIdx: number;
   maxRowIdx: number;
-  setDraggedOverRowIdx: StateSetter<number | undefined>;
+  setDraggedOverCellRange: StateSetter<CellRange | undefined>;
 }) {
   const [activePosition, setActivePosition] = useState<ActivePosition | EditPosition<R>>(
     initialActivePosition
@@ -114,7 +114,7 @@ export function useActivePosition<R, SR>({
     resolvedActivePosition !== initialActivePosition
   ) {
     setActivePosition(initialActivePosition);
-    setDraggedOverRowIdx(undefined);
+    setDraggedOverCellRange(undefined);
     ({ resolvedActivePosition, validatedPosition } = getResolvedValues(initialActivePosition));
   } else if (resolvedActivePosition.mode === 'EDIT') {
     const closeOnExternalRowChange =
@@ -1,9 +1,18 @@
-import { useMemo } from 'react';
-
-import { clampColumnWidth, max, min } from '../utils';
-import type { CalculatedColumn, CalculatedColumnParent, ColumnOrColumnGroup, Omit } from '../types';
+import { useMemo, useState } from 'react';
+
+import { applyColumnOrder, clampColumnWidth, isColumnHidden, max, min } from '../utils';
+import type {
+  CalculatedColumn,
+  CalculatedColumnParent,
+  ColumnOrColumnGroup,
+  ColumnType,
+  Maybe,
+  Omit,
+  SortDirection
+} from '../types';
 import { renderValue } from '../cellRenderers';
 import { SELECT_COLUMN_KEY } from '../Columns';
+import { getColumnType } from '../columnTypes';
 import type { DataGridProps } from '../DataGrid';
 import renderHeaderCell from '../renderHeaderCell';
 
@@ -30,7 +39,12 @@ const DEFAULT_COLUMN_MIN_WIDTH = 50;
 
 interface CalculatedColumnsArgs<R, SR> {
   rawColumns: readonly ColumnOrColumnGroup<R, SR>[];
+  columnOrder: Maybe<readonly string[]>;
+  collapsedColumnGroups: Maybe<ReadonlySet<string>>;
+  canCollapseColumnGroups: boolean;
+  hiddenColumns: Maybe<ReadonlySet<string>>;
   defaultColumnOptions: DataGridProps<R, SR>['defaultColumnOptions'];
+  columnTypes: Maybe<Readonly<Record<string, ColumnType<R, SR>>>>;
   viewportWidth: number;
   scrollLeft: number;
   getColumnWidth: (column: CalculatedColumn<R, SR>) => string | number;
@@ -39,7 +53,12 @@ interface CalculatedColumnsArgs<R, SR> {
 
 export function useCalculatedColumns<R, SR>({
   rawColumns,
+  columnOrder,
+  collapsedColumnGroups,
+  canCollapseColumnGroups,
+  hiddenColumns,
   defaultColumnOptions,
+  columnTypes,
   getColumnWidth,
   viewportWidth,
   scrollLeft,
@@ -51,42 +70,96 @@ export function useCalculatedColumns<R, SR>({
   const defaultRenderCell = defaultColumnOptions?.renderCell ?? renderValue;
   const defaultRenderHeaderCell = defaultColumnOptions?.renderHeaderCell ?? renderHeaderCell;
   const defaultSortable = defaultColumnOptions?.sortable ?? false;
+  const rawDefaultSortCycle = defaultColumnOptions?.sortCycle;
+  // the default sort cycle is compared by value so an inline array does not recalculate the columns on every render
+  const [defaultSortCycle, setDefaultSortCycle] = useState(rawDefaultSortCycle);
+  if (!isSameSortCycle(defaultSortCycle, rawDefaultSortCycle)) {
+    setDefaultSortCycle(rawDefaultSortCycle);
+  }
   const defaultResizable = defaultColumnOptions?.resizable ?? false;
   const defaultDraggable = defaultColumnOptions?.draggable ?? false;
 
-  const { columns, colSpanColumns, lastFrozenColumnIndex, headerRowsCount } = useMemo((): {
+  const {
+    columns,
+    colSpanColumns,
+    lastFrozenColumnIndex,
+    firstEndFrozenColumnIndex,
+    headerRowsCount
+  } = useMemo((): {
     readonly columns: readonly CalculatedColumn<R, SR>[];
     readonly colSpanColumns: readonly CalculatedColumn<R, SR>[];
     readonly lastFrozenColumnIndex: number;
+    readonly firstEndFrozenColumnIndex: number;
     readonly headerRowsCount: number;
   } => {
     let lastFrozenColumnIndex = -1;
+    let endFrozenColumnsCount = 0;
     let headerRowsCount = 1;
     const columns: MutableCalculatedColumn<R, SR>[] = [];
 
-    collectColumns(rawColumns, 1);
+    collectColumns(applyColumnOrder(rawColumns, columnOrder), 1);
 
     function collectColumns(
       rawColumns: readonly ColumnOrColumnGroup<R, SR>[],
       level: number,
-      parent?: MutableCalculatedColumnParent<R, SR>
+      parent?: MutableCalculatedColumnParent<R, SR>,
+      collapsedColumns?: ReadonlySet<string>
     ) {
       for (const rawColumn of rawColumns) {
         if ('children' in rawColumn) {
+          const { id } = rawColumn;
+          const hasCollapsedColumns = id != null && rawColumn.collapsedColumns != null;
+          // the collapse control is only exposed when the grid can report the toggle
+          const collapsible = hasCollapsedColumns && canCollapseColumnGroups;
+          const collapsed = hasCollapsedColumns && collapsedColumnGroups?.has(id) === true;
           const calculatedColumnParent: MutableCalculatedColumnParent<R, SR> = {
             name: rawColumn.name,
             parent,
             idx: -1,
             colSpan: 0,
             level: 0,
-            headerCellClass: rawColumn.headerCellClass
+            headerCellClass: rawColumn.headerCellClass,
+            draggable: rawColumn.draggable ?? defaultDraggable,
+            id,
+            collapsible,
+            collapsed
           };
 
-          collectColumns(rawColumn.children, level + 1, calculatedColumnParent);
+          let childCollapsedColumns = collapsedColumns;
+          if (collapsed) {
+            // nested collapsed groups only render the columns kept by all the collapsed groups
+            const visibleKeys = getVisibleColumnKeys(rawColumn.children, hiddenColumns).filter(
+              (key) => collapsedColumns?.has(key) ?? true
+            );
+            const groupCollapsedColumns = rawColumn.collapsedColumns;
+            const keptKeys = visibleKeys.filter((key) => groupCollapsedColumns.includes(key));
+            // the first visible column is kept when no collapsed column is visible,
+            // so the header of the group can still be expanded
+            childCollapsedColumns = new Set(
+              keptKeys.length === 0 ? visibleKeys.slice(0, 1) : keptKeys
+            );
+          }
+
+          collectColumns(
+            rawColumn.children,
+            level + 1,
+            calculatedColumnParent,
+            childCollapsedColumns
+          );
           continue;
         }
 
-        const frozen = rawColumn.frozen ?? false;
+        // hidden columns keep their width in `columnWidths`,
+        // and groups without visible columns are not rendered
+        if (isColumnHidden(rawColumn, hiddenColumns)) continue;
+
+        // only the `collapsedColumns` of collapsed groups are rendered
+        if (collapsedColumns?.has(rawColumn.key) === false) continue;
+
+        const frozen = getFrozenPosition(rawColumn.frozen);
+        const columnType: Maybe<ColumnType<R, SR>> =
+          rawColumn.type == null ? undefined : getColumnType(rawColumn.type, columnTypes);
+        const editable = rawColumn.editable != null && rawColumn.editable !== false;
 
         const column: MutableCalculatedColumn<R, SR> = {
           ...rawColumn,
@@ -98,16 +171,29 @@ export function useCalculatedColumns<R, SR>({
           minWidth: rawColumn.minWidth ?? defaultMinWidth,
           maxWidth: rawColumn.maxWidth ?? defaultMaxWidth,
           sortable: rawColumn.sortable ?? defaultSortable,
+          // `sortDescendingFirst` takes precedence over the default sort cycle
+          sortCycle:
+            rawColumn.sortCycle ??
+            (rawColumn.sortDescendingFirst === true ? undefined : defaultSortCycle),
           resizable: rawColumn.resizable ?? defaultResizable,
           draggable: rawColumn.draggable ?? defaultDraggable,
-          renderCell: rawColumn.renderCell ?? defaultRenderCell,
+          align: rawColumn.align ?? columnType?.align,
+          formatValue: rawColumn.formatValue ?? columnType?.formatValue,
+          parseValue: rawColumn.parseValue ?? columnType?.parseValue,
+          compareValues: rawColumn.compareValues ?? columnType?.compareValues,
+          renderCell: rawColumn.renderCell ?? columnType?.renderCell ?? defaultRenderCell,
+          // the editor of the type is only used by editable columns
+          renderEditCell:
+            rawColumn.renderEditCell ?? (editable ? columnType?.renderEditCell : undefined),
           renderHeaderCell: rawColumn.renderHeaderCell ?? defaultRenderHeaderCell
         };
 
         columns.push(column);
 
-        if (frozen) {
+        if (frozen === 'start') {
           lastFrozenColumnIndex++;
+        } else if (frozen === 'end') {
+          endFrozenColumnsCount++;
         }
 
         if (level > headerRowsCount) {
@@ -121,17 +207,10 @@ export function useCalculatedColumns<R, SR>({
       if (aKey === SELECT_COLUMN_KEY) return -1;
       if (bKey === SELECT_COLUMN_KEY) return 1;
 
-      // Sort frozen columns second:
-      if (frozenA) {
-        if (frozenB) return 0;
-        return -1;
-      }
-      if (frozenB) return 1;
-
+      // Sort columns frozen at the start second,
+      // other columns third, and columns frozen at the end last:
       // TODO: sort columns to keep them grouped if they have a parent
-
-      // Sort other columns last:
-      return 0;
+      return getFrozenSortOrder(frozenA) - getFrozenSortOrder(frozenB);
     });
 
     const colSpanColumns: CalculatedColumn<R, SR>[] = [];
@@ -148,10 +227,16 @@ export function useCalculatedColumns<R, SR>({
       columns,
       colSpanColumns,
       lastFrozenColumnIndex,
+      firstEndFrozenColumnIndex: columns.length - endFrozenColumnsCount,
       headerRowsCount
     };
   }, [
     rawColumns,
+    columnOrder,
+    collapsedColumnGroups,
+    canCollapseColumnGroups,
+    hiddenColumns,
+    columnTypes,
     defaultWidth,
     defaultMinWidth,
     defaultMaxWidth,
@@ -159,18 +244,27 @@ export function useCalculatedColumns<R, SR>({
     defaultRenderHeaderCell,
     defaultResizable,
     defaultSortable,
+    defaultSortCycle,
     defaultDraggable
   ]);
 
-  const { templateColumns, layoutCssVars, totalFrozenColumnWidth, columnMetrics } = useMemo((): {
+  const {
+    templateColumns,
+    layoutCssVars,
+    totalFrozenColumnWidth,
+    totalEndFrozenColumnWidth,
+    columnMetrics
+  } = useMemo((): {
     templateColumns: readonly string[];
     layoutCssVars: Readonly<Record<string, string>>;
     totalFrozenColumnWidth: number;
+    totalEndFrozenColumnWidth: number;
     columnMetrics: ReadonlyMap<CalculatedColumn<R, SR>, ColumnMetric>;
   } => {
     const columnMetrics = new Map<CalculatedColumn<R, SR>, ColumnMetric>();
     let left = 0;
     let totalFrozenColumnWidth = 0;
+    let totalEndFrozenColumnWidth = 0;
     const templateColumns: string[] = [];
 
     for (const column of columns) {
@@ -200,18 +294,31 @@ export function useCalculatedColumns<R, SR>({
       layoutCssVars[`--rdg-frozen-left-${column.idx}`] = `${columnMetrics.get(column)!.left}px`;
     }
 
-    return { templateColumns, layoutCssVars, totalFrozenColumnWidth, columnMetrics };
-  }, [getColumnWidth, columns, lastFrozenColumnIndex]);
+    for (let i = columns.length - 1; i >= firstEndFrozenColumnIndex; i--) {
+      const column = columns[i];
+      layoutCssVars[`--rdg-frozen-right-${column.idx}`] = `${totalEndFrozenColumnWidth}px`;
+      totalEndFrozenColumnWidth += columnMetrics.get(column)!.width;
+    }
+
+    return {
+      templateColumns,
+      layoutCssVars,
+      totalFrozenColumnWidth,
+      totalEndFrozenColumnWidth,
+      columnMetrics
+    };
+  }, [getColumnWidth, columns, lastFrozenColumnIndex, firstEndFrozenColumnIndex]);
 
   const [colOverscanStartIdx, colOverscanEndIdx] = useMemo((): [number, number] => {
     if (!enableVirtualization) {
-      return [0, columns.length - 1];
+      // the frozen columns are always rendered, so they are excluded to not render them twice
+      return [lastFrozenColumnIndex + 1, firstEndFrozenColumnIndex - 1];
     }
     // get the viewport's left side and right side positions for non-frozen columns
     const viewportLeft = scrollLeft + totalFrozenColumnWidth;
-    const viewportRight = scrollLeft + viewportWidth;
+    const viewportRight = scrollLeft + viewportWidth - totalEndFrozenColumnWidth;
     // get first and last non-frozen column indexes
-    const lastColIdx = columns.length - 1;
+    const lastColIdx = firstEndFrozenColumnIndex - 1;
     const firstUnfrozenColumnIdx = min(lastFrozenColumnIndex + 1, lastColIdx);
 
     // skip rendering non-frozen columns if the frozen columns cover the entire viewport
@@ -251,8 +358,10 @@ export function useCalculatedColumns<R, SR>({
     columnMetrics,
     columns,
     lastFrozenColumnIndex,
+    firstEndFrozenColumnIndex,
     scrollLeft,
     totalFrozenColumnWidth,
+    totalEndFrozenColumnWidth,
     viewportWidth,
     enableVirtualization
   ]);
@@ -266,7 +375,10 @@ export function useCalculatedColumns<R, SR>({
     layoutCssVars,
     headerRowsCount,
     lastFrozenColumnIndex,
-    totalFrozenColumnWidth
+    firstEndFrozenColumnIndex,
+    totalFrozenColumnWidth,
+    totalEndFrozenColumnWidth,
+    columnMetrics
   };
 }
 
@@ -288,3 +400,35 @@ function updateColumnParent<R, SR>(
     updateColumnParent(parent, index, level - 1);
   }
 }
+
+function getVisibleColumnKeys<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  hiddenColumns: Maybe<ReadonlySet<string>>
+): string[] {
+  return columns.flatMap((column) => {
+    if ('children' in column) return getVisibleColumnKeys(column.children, hiddenColumns);
+    return isColumnHidden(column, hiddenColumns) ? [] : column.key;
+  });
+}
+
+function isSameSortCycle(
+  sortCycle1: Maybe<readonly (SortDirection | null)[]>,
+  sortCycle2: Maybe<readonly (SortDirection | null)[]>
+): boolean {
+  if (sortCycle1 == null || sortCycle2 == null) return sortCycle1 === sortCycle2;
+  return (
+    sortCycle1.length === sortCycle2.length &&
+    sortCycle1.every((direction, index) => direction === sortCycle2[index])
+  );
+}
+
+function getFrozenPosition(frozen: Maybe<boolean | 'start' | 'end'>) {
+  if (frozen === true) return 'start';
+  return frozen ?? false;
+}
+
+function getFrozenSortOrder(frozen: CalculatedColumn<unknown>['frozen']) {
+  if (frozen === 'start') return 0;
+  if (frozen === 'end') return 2;
+  return 1;
+}
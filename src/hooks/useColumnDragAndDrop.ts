@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { flushSync } from 'react-dom';
+
+import type { CalculatedColumnOrColumnGroup } from '../types';
+
+export type ColumnDropPosition = 'start' | 'end';
+
+export interface ColumnDragAndDropArgs<R, SR> {
+  column: CalculatedColumnOrColumnGroup<R, SR>;
+  draggedColumn: CalculatedColumnOrColumnGroup<R, SR> | undefined;
+  setDraggedColumn: (draggedColumn: CalculatedColumnOrColumnGroup<R, SR> | undefined) => void;
+  /** Returns the side of the target where the dragged column is dropped, or `undefined` when it cannot be dropped */
+  getColumnDropPosition: (
+    target: CalculatedColumnOrColumnGroup<R, SR>
+  ) => ColumnDropPosition | undefined;
+  onColumnDrop: (
+    source: CalculatedColumnOrColumnGroup<R, SR>,
+    target: CalculatedColumnOrColumnGroup<R, SR>
+  ) => void;
+  dragImageRef?: React.RefObject<HTMLDivElement | null>;
+}
+
+export function useColumnDragAndDrop<R, SR>({
+  column,
+  draggedColumn,
+  setDraggedColumn,
+  getColumnDropPosition,
+  onColumnDrop,
+  dragImageRef
+}: ColumnDragAndDropArgs<R, SR>) {
+  const [isOver, setIsOver] = useState(false);
+  const isDragging = draggedColumn === column;
+  const dropPosition = draggedColumn === undefined ? undefined : getColumnDropPosition(column);
+
+  function onDragStart(event: React.DragEvent<HTMLDivElement>) {
+    // need flushSync to make sure the drag image is rendered before the drag starts
+    flushSync(() => {
+      setDraggedColumn(column);
+    });
+    if (dragImageRef?.current) {
+      event.dataTransfer.setDragImage(dragImageRef.current, 0, 0);
+    }
+    event.dataTransfer.dropEffect = 'move';
+  }
+
+  function onDragEnd() {
+    setDraggedColumn(undefined);
+  }
+
+  function onDragOver(event: React.DragEvent<HTMLDivElement>) {
+    // prevent default to allow drop
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  }
+
+  function onDrop(event: React.DragEvent<HTMLDivElement>) {
+    setIsOver(false);
+    // prevent the browser from redirecting in some cases
+    event.preventDefault();
+    onColumnDrop(draggedColumn!, column);
+  }
+
+  function onDragEnter(event: React.DragEvent<HTMLDivElement>) {
+    if (isEventPertinent(event)) {
+      setIsOver(true);
+    }
+  }
+
+  function onDragLeave(event: React.DragEvent<HTMLDivElement>) {
+    if (isEventPertinent(event)) {
+      setIsOver(false);
+    }
+  }
+
+  let dragTargetProps: React.ComponentProps<'div'> | undefined;
+  let dropTargetProps: React.ComponentProps<'div'> | undefined;
+  if (column.draggable) {
+    dragTargetProps = {
+      draggable: true,
+      onDragStart,
+      onDragEnd
+    };
+  }
+
+  if (dropPosition !== undefined) {
+    dropTargetProps = {
+      onDragOver,
+      onDragEnter,
+      onDragLeave,
+      onDrop
+    };
+  }
+
+  return {
+    isDragging,
+    // the drop position is only returned while the dragged column is over the column
+    dropPosition: isOver ? dropPosition : undefined,
+    dragTargetProps,
+    dropTargetProps
+  } as const;
+}
+
+// only accept pertinent drag events:
+// - ignore drag events going from the container to an element inside the container
+// - ignore drag events going from an element inside the container to the container
+function isEventPertinent(event: React.DragEvent) {
+  const relatedTarget = event.relatedTarget as HTMLElement | null;
+
+  return !event.currentTarget.contains(relatedTarget);
+}
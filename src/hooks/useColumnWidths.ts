@@ -1,9 +1,22 @@
 import { useLayoutEffect, useState } from 'react';
 import { flushSync } from 'react-dom';
 
-import type { CalculatedColumn, ColumnWidths, ResizedWidth } from '../types';
+import { ceil, clampColumnWidth, floor, max } from '../utils';
+import type {
+  AutosizeColumnsOptions,
+  CalculatedColumn,
+  ColumnWidths,
+  Maybe,
+  ResizedWidth
+} from '../types';
+import { SELECT_COLUMN_KEY } from '../Columns';
 import type { DataGridProps } from '../DataGrid';
 
+interface AutosizeRequest {
+  readonly keys: Maybe<readonly string[]>;
+  readonly options: AutosizeColumnsOptions;
+}
+
 export function useColumnWidths<R, SR>(
   columns: readonly CalculatedColumn<R, SR>[],
   viewportColumns: readonly CalculatedColumn<R, SR>[],
@@ -13,7 +26,8 @@ export function useColumnWidths<R, SR>(
   columnWidths: ColumnWidths,
   onColumnWidthsChange: (columnWidths: ColumnWidths) => void,
   onColumnResize: DataGridProps<R, SR>['onColumnResize'],
-  setColumnResizing: (isColumnResizing: boolean) => void
+  setColumnResizing: (isColumnResizing: boolean) => void,
+  autosizeOnMount: Maybe<boolean | AutosizeColumnsOptions>
 ) {
   const [columnToAutoResize, setColumnToAutoResize] = useState<{
     readonly key: string;
@@ -22,6 +36,10 @@ export function useColumnWidths<R, SR>(
   const [columnsToMeasureOnResize, setColumnsToMeasureOnResize] =
     useState<ReadonlySet<string> | null>(null);
   const [prevGridWidth, setPrevGridWidth] = useState(gridWidth);
+  const [autosizeRequest, setAutosizeRequest] = useState((): AutosizeRequest | null => {
+    if (autosizeOnMount == null || autosizeOnMount === false) return null;
+    return { keys: undefined, options: autosizeOnMount === true ? {} : autosizeOnMount };
+  });
   const columnsCanFlex: boolean = columns.length === viewportColumns.length;
   const ignorePreviouslyMeasuredColumnsOnGridWidthChange =
     // Allow columns to flex again when...
@@ -54,11 +72,23 @@ export function useColumnWidths<R, SR>(
 
   const gridTemplateColumns = newTemplateColumns.join(' ');
 
+  const columnsToAutosize: CalculatedColumn<R, SR>[] = [];
+  if (autosizeRequest !== null) {
+    const { keys, options } = autosizeRequest;
+    for (const column of columns) {
+      const { key } = column;
+      // the select column is only autosized when its key is explicitly passed
+      if (keys == null ? key === SELECT_COLUMN_KEY : !keys.includes(key)) continue;
+      if (options.skipResized === true && columnWidths.get(key)?.type === 'resized') continue;
+      columnsToAutosize.push(column);
+    }
+  }
+
   useLayoutEffect(updateMeasuredAndResizedWidths);
 
   function updateMeasuredAndResizedWidths() {
     setPrevGridWidth(gridWidth);
-    if (columnsToMeasure.length === 0) return;
+    if (columnsToMeasure.length === 0 && autosizeRequest === null) return;
 
     const newColumnWidths = new Map(columnWidths);
     let hasChanges = false;
@@ -87,6 +117,15 @@ export function useColumnWidths<R, SR>(
       setColumnToAutoResize(null);
     }
 
+    if (autosizeRequest !== null) {
+      for (const [key, width] of measureAutosizedWidths(autosizeRequest.options)) {
+        const previousWidth = newColumnWidths.get(key);
+        hasChanges ||= previousWidth?.type !== 'resized' || previousWidth.width !== width;
+        newColumnWidths.set(key, { type: 'resized', width });
+      }
+      setAutosizeRequest(null);
+    }
+
     if (hasChanges) {
       onColumnWidthsChange(newColumnWidths);
     }
@@ -132,9 +171,69 @@ export function useColumnWidths<R, SR>(
     }
   }
 
+  function measureAutosizedWidths(options: AutosizeColumnsOptions) {
+    const widths = new Map<string, number>();
+
+    for (const column of columnsToAutosize) {
+      const selector = `[data-autosize-cell-key="${CSS.escape(column.key)}"]`;
+      const cells = gridRef.current?.querySelectorAll(selector) ?? [];
+      if (cells.length === 0) continue;
+
+      let width = 0;
+      for (const cell of cells) {
+        width = max(width, cell.getBoundingClientRect().width);
+      }
+      widths.set(column.key, clampColumnWidth(ceil(width), column));
+    }
+
+    if (options.mode === 'gridWidth' && widths.size > 0) {
+      // distribute the width left by the other columns proportionally to the content widths
+      let availableWidth = gridRef.current?.clientWidth ?? 0;
+      let contentWidth = 0;
+      for (const column of columns) {
+        const width = widths.get(column.key);
+        if (width === undefined) {
+          availableWidth -= getCurrentColumnWidth(column);
+        } else {
+          contentWidth += width;
+        }
+      }
+
+      if (availableWidth > 0) {
+        const scale = availableWidth / contentWidth;
+        for (const column of columnsToAutosize) {
+          const width = widths.get(column.key);
+          if (width !== undefined) {
+            widths.set(column.key, clampColumnWidth(floor(width * scale), column));
+          }
+        }
+      }
+    }
+
+    return widths;
+  }
+
+  function getCurrentColumnWidth(column: CalculatedColumn<R, SR>) {
+    return (
+      measureColumnWidth(gridRef, column.key) ??
+      columnWidths.get(column.key)?.width ??
+      (typeof column.width === 'number' ? column.width : column.minWidth)
+    );
+  }
+
+  function autosizeColumns(
+    keys?: Maybe<readonly string[]>,
+    options?: Maybe<AutosizeColumnsOptions>
+  ) {
+    setAutosizeRequest({ keys, options: options ?? {} });
+  }
+
   return {
     gridTemplateColumns,
-    handleColumnResize
+    handleColumnResize,
+    columnsToAutosize,
+    autosizeOptions: autosizeRequest?.options,
+    autosizeColumns
   } as const;
 }
 
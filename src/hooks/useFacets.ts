@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+
+import { compareValues, createRowPredicate, getFilterCellValue, isEmptyValue } from '../utils';
+import type { CalculatedColumn, ColumnOrColumnGroup, Filters } from '../types';
+
+// rows are counted in chunks, yielding to the main thread in between,
+// so opening a facet filter does not block the page with large datasets
+const chunkSize = 10_000;
+
+export interface Facet {
+  readonly value: unknown;
+  readonly count: number;
+}
+
+function compareFacets(a: Facet, b: Facet) {
+  const isAEmpty = isEmptyValue(a.value);
+  const isBEmpty = isEmptyValue(b.value);
+  if (isAEmpty || isBEmpty) return Number(isAEmpty) - Number(isBEmpty);
+  return compareValues(a.value, b.value);
+}
+
+/**
+ * Counts the distinct values of the column, in the rows matching the filters of the other columns.
+ * Returns `undefined` until the values are counted for the first time
+ */
+export function useFacets<R, SR>(
+  column: CalculatedColumn<R, SR>,
+  rows: readonly R[],
+  filters: Filters,
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  isEnabled: boolean
+): readonly Facet[] | undefined {
+  const [facets, setFacets] = useState<readonly Facet[]>();
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    // the filter of the column itself is ignored, so deselected values are still listed
+    const otherFilters = new Map(filters);
+    otherFilters.delete(column.key);
+    const predicate = createRowPredicate(otherFilters, columns);
+    const counts = new Map<unknown, number>();
+    let startIdx = 0;
+    let timeoutId: number | undefined;
+
+    function countChunk() {
+      const endIdx = Math.min(startIdx + chunkSize, rows.length);
+      for (let rowIdx = startIdx; rowIdx < endIdx; rowIdx++) {
+        const row = rows[rowIdx];
+        if (predicate !== undefined && !predicate(row)) continue;
+        const value = getFilterCellValue(column, row);
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+      startIdx = endIdx;
+
+      if (startIdx < rows.length) {
+        timeoutId = window.setTimeout(countChunk);
+        return;
+      }
+
+      setFacets(Array.from(counts, ([value, count]) => ({ value, count })).sort(compareFacets));
+    }
+
+    timeoutId = window.setTimeout(countChunk);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [column, rows, filters, columns, isEnabled]);
+
+  return facets;
+}
@@ -0,0 +1,226 @@
+import { useRef } from 'react';
+
+import { findColumn, getCellChanges, setCellValue } from '../utils';
+import type { CalculatedColumn, ColumnOrColumnGroup, Maybe } from '../types';
+
+const maxHistorySize = 100;
+
+interface RowChange<R> {
+  /** `undefined` when the row was appended */
+  readonly oldRow: R | undefined;
+  readonly newRow: R;
+}
+
+interface HistoryEntry<R, SR> {
+  readonly changes: readonly RowChange<R>[];
+  readonly column: CalculatedColumn<R, SR>;
+}
+
+/** A change sent to `onRowsChange`, recorded once the rows show that it was accepted */
+interface PendingEntry<R, SR> {
+  readonly entry: HistoryEntry<R, SR>;
+  readonly type: 'change' | 'undo' | 'redo';
+  /** The rows sent to `onRowsChange` */
+  readonly rowRestores: readonly RowRestore<R>[];
+}
+
+interface RowRestore<R> {
+  /** `undefined` when the row is appended */
+  readonly from: R | undefined;
+  /** `undefined` when the row is removed */
+  readonly to: R | undefined;
+}
+
+interface RestoredRows<R, SR> {
+  readonly rows: R[];
+  readonly indexes: number[];
+  /** The rows replaced by the restored rows, aligned with `indexes` */
+  readonly oldRows: (R | undefined)[];
+  readonly column: CalculatedColumn<R, SR>;
+  readonly rowRestores: readonly RowRestore<R>[];
+}
+
+export function useGridHistory<R, SR>(
+  rows: readonly R[],
+  rowKeyGetter: Maybe<(row: NoInfer<R>) => unknown>,
+  columns: readonly ColumnOrColumnGroup<NoInfer<R>, NoInfer<SR>>[]
+) {
+  const undoStackRef = useRef<HistoryEntry<R, SR>[]>([]);
+  const redoStackRef = useRef<HistoryEntry<R, SR>[]>([]);
+  const pendingEntryRef = useRef<PendingEntry<R, SR> | null>(null);
+
+  /**
+   * Rows are matched by key when `rowKeyGetter` is set, and by reference otherwise,
+   * so a change can still be restored after the rows were sorted or otherwise updated outside of the grid
+   */
+  function getRowId(row: R): unknown {
+    return typeof rowKeyGetter === 'function' ? rowKeyGetter(row) : row;
+  }
+
+  function getRowIndexes() {
+    return new Map(rows.map((row, rowIdx) => [getRowId(row), rowIdx]));
+  }
+
+  function getRowRestores(entry: HistoryEntry<R, SR>, isUndo: boolean): RowRestore<R>[] {
+    return entry.changes.map(({ oldRow, newRow }) =>
+      isUndo ? { from: newRow, to: oldRow } : { from: oldRow, to: newRow }
+    );
+  }
+
+  /**
+   * Applies the cells changed from the `from` row to the `to` row onto the current row,
+   * so the changes made to the other cells of the row since are kept
+   */
+  function restoreCells(row: R, { from, to }: RowRestore<R>): R {
+    if (row === from) return to!;
+    let restoredRow = row;
+    for (const { columnKey, newValue } of getCellChanges(columns, undefined, 0, from, to!)) {
+      restoredRow = setCellValue(findColumn(columns, columnKey)!, restoredRow, newValue);
+    }
+    return restoredRow;
+  }
+
+  /**
+   * Moves the pending entry to its stack if the rows were updated with it,
+   * or back to the stack it came from if `onRowsChange` did not update the rows
+   */
+  function commitPendingEntry() {
+    const pendingEntry = pendingEntryRef.current;
+    if (pendingEntry === null) return;
+    pendingEntryRef.current = null;
+
+    const { entry, type, rowRestores } = pendingEntry;
+    const rowIndexes = getRowIndexes();
+    const isAccepted = rowRestores.some(({ from, to }) => {
+      if (to === undefined) return !rowIndexes.has(getRowId(from!));
+      const rowIdx = rowIndexes.get(getRowId(to));
+      return rowIdx !== undefined && rows[rowIdx] !== from;
+    });
+
+    if (type === 'change') {
+      if (!isAccepted) return;
+      pushEntry(undoStackRef.current, entry);
+      redoStackRef.current = [];
+    } else if (isAccepted) {
+      pushEntry(type === 'undo' ? redoStackRef.current : undoStackRef.current, entry);
+    } else {
+      pushEntry(type === 'undo' ? undoStackRef.current : redoStackRef.current, entry);
+    }
+  }
+
+  function recordRowsChange(
+    updatedRows: readonly R[],
+    indexes: readonly number[],
+    oldRows: readonly (R | undefined)[],
+    column: CalculatedColumn<R, SR>
+  ) {
+    commitPendingEntry();
+    const changes = indexes.map((rowIdx, i) => ({
+      oldRow: oldRows[i],
+      newRow: updatedRows[rowIdx]
+    }));
+    const entry = { changes, column };
+    pendingEntryRef.current = { entry, type: 'change', rowRestores: getRowRestores(entry, false) };
+  }
+
+  /** Returns `undefined` if none of the rows of the change can be found */
+  function restore(
+    rowRestores: readonly RowRestore<R>[],
+    column: CalculatedColumn<R, SR>
+  ): RestoredRows<R, SR> | undefined {
+    const rowIndexes = getRowIndexes();
+    const restoredRows = new Map<number, R>();
+    const removedIndexes = new Set<number>();
+    const appendedRows: R[] = [];
+    const appliedRowRestores: RowRestore<R>[] = [];
+
+    for (const rowRestore of rowRestores) {
+      const { from, to } = rowRestore;
+      if (from === undefined) {
+        if (!rowIndexes.has(getRowId(to!))) {
+          appendedRows.push(to!);
+          appliedRowRestores.push(rowRestore);
+        }
+        continue;
+      }
+
+      const rowIdx = rowIndexes.get(getRowId(from));
+      if (rowIdx === undefined) continue;
+      if (to === undefined) {
+        removedIndexes.add(rowIdx);
+        appliedRowRestores.push({ from: rows[rowIdx], to });
+        continue;
+      }
+
+      const restoredRow = restoreCells(rows[rowIdx], rowRestore);
+      if (restoredRow !== rows[rowIdx]) {
+        restoredRows.set(rowIdx, restoredRow);
+        appliedRowRestores.push({ from: rows[rowIdx], to: restoredRow });
+      }
+    }
+
+    if (restoredRows.size === 0 && removedIndexes.size === 0 && appendedRows.length === 0) {
+      return;
+    }
+
+    const updatedRows: R[] = [];
+    const indexes: number[] = [];
+    const oldRows: (R | undefined)[] = [];
+    for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
+      if (removedIndexes.has(rowIdx)) continue;
+      const restoredRow = restoredRows.get(rowIdx);
+      if (restoredRow === undefined) {
+        updatedRows.push(rows[rowIdx]);
+      } else {
+        indexes.push(updatedRows.length);
+        oldRows.push(rows[rowIdx]);
+        updatedRows.push(restoredRow);
+      }
+    }
+
+    for (const row of appendedRows) {
+      indexes.push(updatedRows.length);
+      oldRows.push(undefined);
+      updatedRows.push(row);
+    }
+
+    return { rows: updatedRows, indexes, oldRows, column, rowRestores: appliedRowRestores };
+  }
+
+  function restoreEntry(isUndo: boolean) {
+    commitPendingEntry();
+    const stack = isUndo ? undoStackRef.current : redoStackRef.current;
+
+    // entries whose rows no longer exist are discarded
+    let entry;
+    while ((entry = stack.pop()) !== undefined) {
+      const restoredRows = restore(getRowRestores(entry, isUndo), entry.column);
+      if (restoredRows !== undefined) {
+        pendingEntryRef.current = {
+          entry,
+          type: isUndo ? 'undo' : 'redo',
+          rowRestores: restoredRows.rowRestores
+        };
+        return restoredRows;
+      }
+    }
+    return undefined;
+  }
+
+  function undo() {
+    return restoreEntry(true);
+  }
+
+  function redo() {
+    return restoreEntry(false);
+  }
+
+  return { recordRowsChange, undo, redo };
+}
+
+function pushEntry<R, SR>(stack: HistoryEntry<R, SR>[], entry: HistoryEntry<R, SR>) {
+  stack.push(entry);
+  if (stack.length > maxHistorySize) {
+    stack.shift();
+  }
+}
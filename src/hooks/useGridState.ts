@@ -0,0 +1,231 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+import { applyColumnOrder, findColumn, getColumnKeys, isColumnHidden } from '../utils';
+import type {
+  ColumnOrColumnGroup,
+  ColumnWidths,
+  Filters,
+  FilterValue,
+  GridState,
+  Maybe,
+  SortColumn
+} from '../types';
+import type { DataGridHandle } from '../DataGrid';
+
+const gridStateVersion = 1;
+
+export interface UseGridStateOptions<R, SR> {
+  /** The columns of the grid, the saved state of columns that no longer exist is discarded */
+  columns: readonly ColumnOrColumnGroup<R, SR>[];
+  /** A state previously returned by `getState`, or its JSON string */
+  initialState?: unknown;
+}
+
+interface GridStateValues {
+  readonly columnOrder: Maybe<readonly string[]>;
+  readonly columnWidths: ColumnWidths;
+  readonly hiddenColumns: Maybe<ReadonlySet<string>>;
+  readonly sortColumns: readonly SortColumn[];
+  readonly filters: Filters;
+  readonly expandedGroupIds: ReadonlySet<unknown>;
+}
+
+interface ScrollPosition {
+  readonly scrollTop: number;
+  readonly scrollLeft: number;
+}
+
+/**
+ * Holds the state of the grid that users expect to persist, and converts it from and to a serializable `GridState`.
+ * Saved states are validated against the current columns so stale states restore what is still relevant
+ */
+export function useGridState<R, SR = unknown>({
+  columns,
+  initialState
+}: UseGridStateOptions<R, SR>) {
+  const gridRef = useRef<DataGridHandle>(null);
+  const [initialValues] = useState(() => parseGridState(initialState, columns));
+  const [values, setValues] = useState(initialValues[0]);
+  // the scroll position is restored after the rows are rendered
+  const scrollPositionRef = useRef<ScrollPosition | null>(initialValues[1]);
+
+  useLayoutEffect(() => {
+    const scrollPosition = scrollPositionRef.current;
+    const element = gridRef.current?.element;
+    if (scrollPosition === null || element == null) return;
+    scrollPositionRef.current = null;
+    element.scrollTop = scrollPosition.scrollTop;
+    element.scrollLeft = scrollPosition.scrollLeft;
+  });
+
+  function updateValues(newValues: Partial<GridStateValues>) {
+    setValues((values) => ({ ...values, ...newValues }));
+  }
+
+  function getState(): GridState {
+    const element = gridRef.current?.element;
+    const columnWidths: Record<string, number> = {};
+    for (const [key, { type, width }] of values.columnWidths) {
+      if (type === 'resized') {
+        columnWidths[key] = width;
+      }
+    }
+
+    return {
+      version: gridStateVersion,
+      // all the keys are saved so columns added later can be told apart
+      columnOrder: getColumnKeys(applyColumnOrder(columns, values.columnOrder)),
+      columnWidths,
+      hiddenColumns: getColumnKeys(columns).filter((key) =>
+        isColumnHidden(findColumn(columns, key)!, values.hiddenColumns)
+      ),
+      sortColumns: values.sortColumns,
+      filters: Object.fromEntries(values.filters),
+      expandedGroupIds: [...values.expandedGroupIds],
+      scrollTop: element?.scrollTop ?? 0,
+      scrollLeft: element?.scrollLeft ?? 0
+    };
+  }
+
+  function setState(state: unknown) {
+    const [newValues, scrollPosition] = parseGridState(state, columns);
+    scrollPositionRef.current = scrollPosition;
+    setValues(newValues);
+  }
+
+  return {
+    gridProps: {
+      ref: gridRef,
+      columnOrder: values.columnOrder,
+      onColumnOrderChange: (columnOrder: readonly string[]) => updateValues({ columnOrder }),
+      columnWidths: values.columnWidths,
+      onColumnWidthsChange: (columnWidths: ColumnWidths) => updateValues({ columnWidths }),
+      hiddenColumns: values.hiddenColumns,
+      sortColumns: values.sortColumns,
+      onSortColumnsChange: (sortColumns: readonly SortColumn[]) => updateValues({ sortColumns }),
+      filters: values.filters,
+      onFiltersChange: (filters: Filters) => updateValues({ filters })
+    },
+    hiddenColumns: values.hiddenColumns,
+    onHiddenColumnsChange: (hiddenColumns: ReadonlySet<string>) => updateValues({ hiddenColumns }),
+    expandedGroupIds: values.expandedGroupIds,
+    onExpandedGroupIdsChange: (expandedGroupIds: ReadonlySet<unknown>) =>
+      updateValues({ expandedGroupIds }),
+    getState,
+    setState
+  } as const;
+}
+
+/**
+ * Each value of the state is validated separately, invalid values and values of unknown columns are discarded.
+ * States saved with another version of the format are discarded entirely
+ */
+function parseGridState<R, SR>(
+  state: unknown,
+  columns: readonly ColumnOrColumnGroup<R, SR>[]
+): [values: GridStateValues, scrollPosition: ScrollPosition | null] {
+  if (typeof state === 'string') {
+    try {
+      state = JSON.parse(state);
+    } catch {
+      state = undefined;
+    }
+  }
+
+  const values: GridStateValues = {
+    columnOrder: undefined,
+    columnWidths: new Map(),
+    hiddenColumns: undefined,
+    sortColumns: [],
+    filters: new Map(),
+    expandedGroupIds: new Set()
+  };
+
+  if (!isObject(state) || state.version !== gridStateVersion) {
+    return [values, null];
+  }
+
+  const keys = new Set(getColumnKeys(columns));
+  const isColumnKey = (key: unknown): key is string => typeof key === 'string' && keys.has(key);
+  const savedKeys = new Set(Array.isArray(state.columnOrder) ? state.columnOrder : undefined);
+  // columns added after the state was saved use their `hidden` option
+  const newHiddenKeys = [...keys].filter(
+    (key) => !savedKeys.has(key) && findColumn(columns, key)!.hidden === true
+  );
+
+  return [
+    {
+      columnOrder: Array.isArray(state.columnOrder)
+        ? state.columnOrder.filter(isColumnKey)
+        : undefined,
+      columnWidths: new Map(
+        getEntries(state.columnWidths)
+          .filter(
+            (entry): entry is [string, number] =>
+              keys.has(entry[0]) && typeof entry[1] === 'number' && entry[1] > 0
+          )
+          .map(([key, width]) => [key, { type: 'resized', width }])
+      ),
+      hiddenColumns: Array.isArray(state.hiddenColumns)
+        ? new Set([...state.hiddenColumns.filter(isColumnKey), ...newHiddenKeys])
+        : undefined,
+      sortColumns: Array.isArray(state.sortColumns)
+        ? state.sortColumns.filter(
+            (sortColumn): sortColumn is SortColumn =>
+              isObject(sortColumn) &&
+              isColumnKey(sortColumn.columnKey) &&
+              (sortColumn.direction === 'ASC' || sortColumn.direction === 'DESC')
+          )
+        : [],
+      filters: new Map(
+        getEntries(state.filters).filter(
+          (entry): entry is [string, FilterValue] => keys.has(entry[0]) && isFilterValue(entry[1])
+        )
+      ),
+      expandedGroupIds: new Set(
+        Array.isArray(state.expandedGroupIds) ? state.expandedGroupIds : undefined
+      )
+    },
+    {
+      scrollTop: getScrollOffset(state.scrollTop),
+      scrollLeft: getScrollOffset(state.scrollLeft)
+    }
+  ];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFilterValue(value: unknown): value is FilterValue {
+  if (!isObject(value)) return false;
+
+  switch (value.type) {
+    case 'text':
+      return typeof value.text === 'string';
+    case 'number':
+      return isOptionalNumber(value.min) && isOptionalNumber(value.max);
+    case 'date':
+      return isOptionalString(value.from) && isOptionalString(value.to);
+    case 'set':
+      return Array.isArray(value.values);
+    default:
+      return false;
+  }
+}
+
+function isOptionalNumber(value: unknown) {
+  return value === undefined || typeof value === 'number';
+}
+
+function isOptionalString(value: unknown) {
+  return value === undefined || typeof value === 'string';
+}
+
+function getEntries(value: unknown): [string, unknown][] {
+  return isObject(value) ? Object.entries(value) : [];
+}
+
+function getScrollOffset(value: unknown) {
+  return typeof value === 'number' && value > 0 ? value : 0;
+}
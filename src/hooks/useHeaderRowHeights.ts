@@ -0,0 +1,62 @@
+import { useState } from 'react';
+
+import { ceil, max } from '../utils';
+
+/**
+ * Measures the height of the content of each column header row,
+ * using the cells rendered by `HeaderMeasuringCells`.
+ * The cells are observed with a `ResizeObserver` so they are only measured when their size changes
+ */
+export function useHeaderRowHeights() {
+  const [headerRowHeights, setHeaderRowHeights] = useState<readonly number[]>([]);
+  const [{ observeMeasuringCell }] = useState(() => {
+    const cellHeights = new Map<HTMLDivElement, number>();
+
+    function updateHeaderRowHeights() {
+      const heights: number[] = [];
+      for (const [cell, height] of cellHeights) {
+        const rowIdx = Number(cell.dataset.measuringHeaderRowIdx);
+        heights[rowIdx] = max(heights[rowIdx] ?? 0, height);
+      }
+
+      setHeaderRowHeights((headerRowHeights) =>
+        headerRowHeights.length === heights.length &&
+        headerRowHeights.every((height, rowIdx) => height === heights[rowIdx])
+          ? headerRowHeights
+          : heights
+      );
+    }
+
+    // don't break in Node.js (SSR), jsdom, and environments that don't support ResizeObserver
+    const resizeObserver =
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      globalThis.ResizeObserver == null
+        ? null
+        : new ResizeObserver((entries) => {
+            for (const entry of entries) {
+              cellHeights.set(
+                entry.target as HTMLDivElement,
+                ceil(entry.borderBoxSize[0].blockSize)
+              );
+            }
+            updateHeaderRowHeights();
+          });
+
+    return {
+      // ref callback of the measuring cells, it must stay stable so the cells are not observed again on each render
+      observeMeasuringCell(cell: HTMLDivElement) {
+        resizeObserver?.observe(cell);
+
+        return () => {
+          resizeObserver?.unobserve(cell);
+          // the cells of the columns scrolled out of the viewport no longer count
+          if (cellHeights.delete(cell)) {
+            updateHeaderRowHeights();
+          }
+        };
+      }
+    };
+  });
+
+  return { headerRowHeights, observeMeasuringCell } as const;
+}
@@ -0,0 +1,16 @@
+import { createContext, use } from 'react';
+
+export const RowDragStartContext = createContext<
+  ((event: React.DragEvent<HTMLDivElement>, rowIdx: number) => void) | undefined
+>(undefined);
+RowDragStartContext.displayName = 'RowDragStartContext';
+
+export function useRowDragStart() {
+  const rowDragStartContext = use(RowDragStartContext);
+
+  if (rowDragStartContext === undefined) {
+    throw new Error('useRowDragStart must be used within renderCell');
+  }
+
+  return rowDragStartContext;
+}
@@ -7,34 +7,56 @@ export {
   type DefaultColumnOptions
 } from './DataGrid';
 export { TreeDataGrid, type TreeDataGridProps } from './TreeDataGrid';
+export { ColumnChooser, type ColumnChooserProps } from './ColumnChooser';
 export { DataGridDefaultRenderersContext } from './DataGridDefaultRenderersContext';
 export { default as Row } from './Row';
 export { default as Cell } from './Cell';
 export * from './Columns';
 export * from './cellRenderers';
+export { createCurrencyColumnType } from './columnTypes';
 export { renderTextEditor } from './editors/renderTextEditor';
+export { default as renderAnnouncement } from './renderAnnouncement';
 export { default as renderHeaderCell } from './renderHeaderCell';
 export { renderSortIcon, renderSortPriority } from './sortStatus';
-export { useHeaderRowSelection, useRowSelection } from './hooks';
+export { filterRows } from './utils/filterUtils';
+export { moveRows, ROWS_DRAG_MIME_TYPE } from './utils/rowReorderUtils';
+export { sortRows } from './utils/sortUtils';
+export {
+  useGridState,
+  useHeaderRowSelection,
+  useRowSelection,
+  type UseGridStateOptions
+} from './hooks';
 export type {
+  Announcement,
+  AutosizeColumnsOptions,
   CalculatedColumn,
   CalculatedColumnOrColumnGroup,
   CalculatedColumnParent,
+  CellChange,
   CellCopyArgs,
   CellKeyboardEvent,
   CellKeyDownArgs,
   CellMouseArgs,
   CellMouseEvent,
   CellPasteArgs,
+  CellRange,
   CellRendererProps,
   ColSpanArgs,
   Column,
+  ColumnFilter,
   ColumnGroup,
   ColumnOrColumnGroup,
+  ColumnType,
   ColumnWidth,
   ColumnWidths,
   Direction,
+  FillDirection,
   FillEvent,
+  FilterOption,
+  Filters,
+  FilterValue,
+  GridState,
   PositionChangeArgs,
   RenderCellProps,
   RenderCheckboxProps,
@@ -49,6 +71,9 @@ export type {
   RenderSummaryCellProps,
   RowHeightArgs,
   RowsChangeData,
+  RowsChangeSource,
+  RowsDragData,
+  RowsDropEvent,
   SelectHeaderRowEvent,
   SelectRowEvent,
   SetActivePositionOptions,
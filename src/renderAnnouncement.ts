@@ -0,0 +1,34 @@
+import type { Announcement, CalculatedColumnOrColumnGroup } from './types';
+
+export default function renderAnnouncement<R, SR>(announcement: Announcement<R, SR>): string {
+  switch (announcement.type) {
+    case 'columnResize':
+      return `${getColumnLabel(announcement.column)} resized to ${announcement.width} pixels`;
+    case 'columnMove':
+      return `${getColumnLabel(announcement.column)} moved to column ${announcement.position} of ${announcement.columnsCount}`;
+    case 'rowMove':
+      return `Row moved to position ${announcement.position} of ${announcement.rowsCount}`;
+    case 'fillTarget': {
+      const { direction, count } = announcement;
+      const description =
+        direction === 'up' || direction === 'down'
+          ? `Fill ${direction} ${pluralize(count, 'row')}`
+          : `Fill ${direction === 'end' ? 'right' : 'left'} ${pluralize(count, 'column')}`;
+      return `${description}. Press Enter to fill or Escape to cancel`;
+    }
+    case 'fillCancel':
+      return 'Fill cancelled';
+    case 'fill':
+    default:
+      return `Filled ${pluralize(announcement.cellsCount, 'cell')}`;
+  }
+}
+
+function getColumnLabel<R, SR>(column: CalculatedColumnOrColumnGroup<R, SR>) {
+  if (typeof column.name === 'string') return column.name;
+  return 'key' in column ? column.key : 'Column group';
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
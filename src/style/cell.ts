@@ -40,6 +40,8 @@ export const cellFrozen = css`
 
 export const cellFrozenClassname = `rdg-cell-frozen ${cellFrozen}`;
 
+export const cellFrozenEndClassname = 'rdg-cell-frozen-end';
+
 const cellDragHandle = css`
   @layer rdg.DragHandle {
     --rdg-drag-handle-size: 8px;
@@ -28,6 +28,11 @@ const root = css`
     --rdg-row-selected-background-color: light-dark(hsl(207deg 76% 92%), hsl(207deg 76% 42%));
     --rdg-row-selected-hover-background-color: light-dark(hsl(207deg 76% 88%), hsl(207deg 76% 38%));
     --rdg-checkbox-focus-color: hsl(207deg 100% 69%);
+    --rdg-cell-range-background-color: light-dark(
+      hsl(207deg 75% 66% / 15%),
+      hsl(207deg 75% 66% / 25%)
+    );
+    --rdg-search-match-background-color: light-dark(hsl(50deg 100% 70%), hsl(50deg 100% 30%));
 
     &.rdg-dark {
       color-scheme: dark;
@@ -123,3 +128,43 @@ const topShadowClassname = css`
 `;
 
 export const frozenColumnShadowTopClassname = `${frozenColumnShadowClassname} ${topShadowClassname}`;
+
+// Add shadow before the first cell frozen at the end
+export const frozenEndColumnShadowClassname = css`
+  position: sticky;
+  width: 10px;
+  background-image: linear-gradient(
+    to left,
+    light-dark(rgb(0 0 0 / 15%), rgb(0 0 0 / 40%)),
+    transparent
+  );
+  pointer-events: none;
+  z-index: 1;
+
+  opacity: 1;
+  transition: opacity 0.1s;
+
+  @container rdg-root not scroll-state(scrollable: inline-end) {
+    opacity: 0;
+  }
+
+  &:dir(rtl) {
+    transform: scaleX(-1);
+  }
+`;
+
+export const frozenEndColumnShadowTopClassname = `${frozenEndColumnShadowClassname} ${topShadowClassname}`;
+
+// visually hidden, but still announced by screen readers
+const liveRegion = css`
+  @layer rdg.LiveRegion {
+    position: absolute;
+    inline-size: 1px;
+    block-size: 1px;
+    overflow: hidden;
+    clip-path: inset(50%);
+    white-space: nowrap;
+  }
+`;
+
+export const liveRegionClassname = `rdg-live-region ${liveRegion}`;
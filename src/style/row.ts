@@ -1,6 +1,6 @@
 import { css } from 'ecij';
 
-import { cellFrozen } from './cell';
+import { cellFrozen, cellFrozenEndClassname } from './cell';
 
 export const row = css`
   @layer rdg.Row {
@@ -35,6 +35,15 @@ export const row = css`
         inset-inline-start: 0;
         border-inline-start: var(--rdg-selection-width) solid var(--rdg-selection-color);
       }
+
+      & > .${cellFrozenEndClassname}:last-child::before {
+        content: '';
+        display: inline-block;
+        position: absolute;
+        inset-block: 0;
+        inset-inline-end: 0;
+        border-inline-end: var(--rdg-selection-width) solid var(--rdg-selection-color);
+      }
     }
 
     &[aria-selected='true'] {
@@ -51,6 +60,35 @@ export const rowClassname = `rdg-row ${row}`;
 
 export const rowActiveClassname = 'rdg-row-active';
 
+const pinnedRow = css`
+  @layer rdg.Row {
+    position: sticky;
+    z-index: 2;
+  }
+`;
+
+export const pinnedRowClassname = `rdg-pinned-row ${pinnedRow}`;
+
+const rowDragging = css`
+  @layer rdg.Row {
+    opacity: 0.5;
+  }
+`;
+
+export const rowDraggingClassname = `rdg-row-dragging ${rowDragging}`;
+
+const rowDropIndicator = css`
+  @layer rdg.Row {
+    grid-column: 1 / -1;
+    block-size: 2px;
+    z-index: 2;
+    pointer-events: none;
+    background-color: var(--rdg-selection-color);
+  }
+`;
+
+export const rowDropIndicatorClassname = `rdg-row-drop-indicator ${rowDropIndicator}`;
+
 export const topSummaryRowClassname = 'rdg-top-summary-row';
 
 export const bottomSummaryRowClassname = 'rdg-bottom-summary-row';
@@ -13,6 +13,18 @@ export interface Column<TRow, TSummaryRow = unknown> {
   readonly name: string | ReactElement;
   /** A unique key to distinguish each column */
   readonly key: string;
+  /**
+   * Dotted path of the cell value in the row, like `'address.city'`, used when `getValue` or `setValue` is not set.
+   * By default, the cell value is the `key` property of the row
+   */
+  readonly path?: Maybe<string>;
+  /**
+   * Function to get the cell value of a row.
+   * The cell value is used by the default cell renderer and editors, copying, filling, sorting, filtering and searching
+   */
+  readonly getValue?: Maybe<(row: TRow) => unknown>;
+  /** Function to set the cell value of a row, returning the updated row. Used by the default editors and pasting */
+  readonly setValue?: Maybe<(row: TRow, value: unknown) => TRow>;
   /**
    * Column width. If not specified, it will be determined automatically based on grid width and specified widths of other columns
    * @default 'auto'
@@ -25,6 +37,21 @@ export interface Column<TRow, TSummaryRow = unknown> {
   readonly minWidth?: Maybe<number>;
   /** Maximum column width in pixels */
   readonly maxWidth?: Maybe<number>;
+  /**
+   * The type of the cell values, providing the default `align`, `formatValue`, `parseValue`, `compareValues` and `renderCell` options,
+   * and the default `renderEditCell` option of editable columns.
+   * The built-in types are `'string'`, `'number'`, `'date'` and `'boolean'`, more types can be registered with the `columnTypes` renderer
+   */
+  readonly type?: Maybe<string>;
+  /** Horizontal alignment of the content of the cells */
+  readonly align?: Maybe<'start' | 'center' | 'end'>;
+  /** Function to convert a cell value to the text displayed by the default cell renderer */
+  readonly formatValue?: Maybe<(value: unknown) => string>;
+  /**
+   * Function to convert the text typed in an editor, or pasted into a cell, to a cell value.
+   * Returns `undefined` when the text is not valid, leaving the cell unchanged
+   */
+  readonly parseValue?: Maybe<(text: string) => unknown>;
   /** Class name(s) for cells */
   readonly cellClass?: Maybe<string | ((row: TRow) => Maybe<string>)>;
   /** Class name(s) for the header cell */
@@ -43,11 +70,26 @@ export interface Column<TRow, TSummaryRow = unknown> {
   readonly renderGroupCell?: Maybe<(props: RenderGroupCellProps<TRow, TSummaryRow>) => ReactNode>;
   /** Render function to render the content of edit cells. When set, the column is automatically set to be editable */
   readonly renderEditCell?: Maybe<(props: RenderEditCellProps<TRow, TSummaryRow>) => ReactNode>;
-  /** Enables cell editing. If set and no editor property specified, then a textinput will be used as the cell editor */
+  /**
+   * Function to get the text representation of a cell, used when copying cells to the clipboard.
+   * By default, the value of the cell is converted to a string
+   */
+  readonly getClipboardText?: Maybe<(row: TRow) => string>;
+  /**
+   * Function to update a row with the text pasted into a cell, returning the updated row.
+   * By default, the text, parsed with `parseValue` if set, is set as the value of the cell
+   */
+  readonly setClipboardText?: Maybe<(row: TRow, text: string) => TRow>;
+  /** Enables cell editing. When `renderEditCell` is not set, the editor of the column `type` is used */
   readonly editable?: Maybe<boolean | ((row: TRow) => boolean)>;
   readonly colSpan?: Maybe<(args: ColSpanArgs<TRow, TSummaryRow>) => Maybe<number>>;
-  /** Determines whether column is frozen */
-  readonly frozen?: Maybe<boolean>;
+  /**
+   * Determines whether column is frozen, `true` and `'start'` freeze the column at the start of the grid,
+   * `'end'` freezes the column at the end of the grid
+   */
+  readonly frozen?: Maybe<boolean | 'start' | 'end'>;
+  /** Hides the column, when the `hiddenColumns` prop is not set */
+  readonly hidden?: Maybe<boolean>;
   /** Enable resizing of the column */
   readonly resizable?: Maybe<boolean>;
   /** Enable sorting of the column */
@@ -56,6 +98,21 @@ export interface Column<TRow, TSummaryRow = unknown> {
   readonly draggable?: Maybe<boolean>;
   /** Sets the column sort order to be descending instead of ascending the first time the column is sorted */
   readonly sortDescendingFirst?: Maybe<boolean>;
+  /**
+   * The sort directions applied when the column is sorted repeatedly, `null` removes the sort.
+   * Takes precedence over `sortDescendingFirst`
+   * @default ['ASC', 'DESC', null]
+   */
+  readonly sortCycle?: Maybe<readonly (SortDirection | null)[]>;
+  /**
+   * Function to compare two rows in ascending order, used when rows are sorted by the column.
+   * By default, cell values are compared
+   */
+  readonly comparator?: Maybe<(a: TRow, b: TRow) => number>;
+  /** Function to compare two non-empty cell values in ascending order, used when `comparator` is not set */
+  readonly compareValues?: Maybe<(a: unknown, b: unknown) => number>;
+  /** The filter of the column, rendered in the filter row and used by `filterRows` */
+  readonly filter?: Maybe<ColumnFilter<TRow>>;
   /** Options for cell editing */
   readonly editorOptions?: Maybe<{
     /**
@@ -88,7 +145,7 @@ export interface CalculatedColumn<TRow, TSummaryRow = unknown> extends Column<TR
   readonly resizable: boolean;
   readonly sortable: boolean;
   readonly draggable: boolean;
-  readonly frozen: boolean;
+  readonly frozen: false | 'start' | 'end';
   readonly renderCell: (props: RenderCellProps<TRow, TSummaryRow>) => ReactNode;
   readonly renderHeaderCell: (props: RenderHeaderCellProps<TRow, TSummaryRow>) => ReactNode;
 }
@@ -97,6 +154,12 @@ export interface ColumnGroup<R, SR = unknown> {
   /** The name of the column group, it will be displayed in the header cell */
   readonly name: string | ReactElement;
   readonly headerCellClass?: Maybe<string>;
+  /** Enables dragging the column group, with all its columns, to reorder it among its sibling columns and column groups */
+  readonly draggable?: Maybe<boolean>;
+  /** Identifies the column group in the `collapsedColumnGroups` prop */
+  readonly id?: Maybe<string>;
+  /** Keys of the columns still displayed when the column group is collapsed, the group can be collapsed when `id` is set as well */
+  readonly collapsedColumns?: Maybe<readonly string[]>;
   readonly children: readonly ColumnOrColumnGroup<R, SR>[];
 }
 
@@ -107,6 +170,10 @@ export interface CalculatedColumnParent<R, SR> {
   readonly colSpan: number;
   readonly level: number;
   readonly headerCellClass?: Maybe<string>;
+  readonly draggable: boolean;
+  readonly id?: Maybe<string>;
+  readonly collapsible: boolean;
+  readonly collapsed: boolean;
 }
 
 export type ColumnOrColumnGroup<R, SR = unknown> = Column<R, SR> | ColumnGroup<R, SR>;
@@ -120,6 +187,17 @@ export interface Position {
   readonly rowIdx: number;
 }
 
+export interface CellRange {
+  /** index of the first column in the range */
+  readonly startIdx: number;
+  /** row index of the first row in the range */
+  readonly startRowIdx: number;
+  /** index of the last column in the range */
+  readonly endIdx: number;
+  /** row index of the last row in the range */
+  readonly endRowIdx: number;
+}
+
 export interface RenderCellProps<TRow, TSummaryRow = unknown> {
   column: CalculatedColumn<TRow, TSummaryRow>;
   row: TRow;
@@ -169,6 +247,7 @@ interface BaseCellRendererProps<TRow, TSummaryRow = unknown>
     > {
   rowIdx: number;
   setActivePosition: (position: Position, options?: SetActivePositionOptions) => void;
+  selectCellRange: Maybe<(position: Position) => void>;
 }
 
 export interface CellRendererProps<TRow, TSummaryRow> extends BaseCellRendererProps<
@@ -180,6 +259,7 @@ export interface CellRendererProps<TRow, TSummaryRow> extends BaseCellRendererPr
   colSpan: number | undefined;
   isDraggedOver: boolean;
   isCellActive: boolean;
+  selectedCellRange: CellRange | undefined;
   onRowChange: (column: CalculatedColumn<TRow, TSummaryRow>, rowIdx: number, newRow: TRow) => void;
 }
 
@@ -277,16 +357,63 @@ export interface RenderRowProps<TRow, TSummaryRow = unknown> extends BaseRenderR
   TSummaryRow
 > {
   row: TRow;
-  draggedOverCellIdx: number | undefined;
+  draggedOverCellRange: CellRange | undefined;
+  selectedCellRange: CellRange | undefined;
   activeCellEditor: ReactElement<RenderEditCellProps<TRow>> | undefined;
   onRowChange: (column: CalculatedColumn<TRow, TSummaryRow>, rowIdx: number, newRow: TRow) => void;
   rowClass: Maybe<(row: TRow, rowIdx: number) => Maybe<string>>;
   isTreeGrid: boolean;
 }
 
+/**
+ * The operation that changed the rows:
+ * - `edit`: a cell was edited, or a cell renderer called `onRowChange`
+ * - `paste`: content was pasted into the grid
+ * - `fill`: cells were filled using the drag handle
+ * - `clear`: the selected cell range was cleared with Delete
+ * - `undo`: a change was undone
+ * - `redo`: a change was redone
+ *
+ * There is no `api` source: the grid only changes the rows through these operations,
+ * so the undo and redo operations have their own sources instead.
+ */
+export type RowsChangeSource = 'edit' | 'paste' | 'fill' | 'clear' | 'undo' | 'redo';
+
+export interface CellChange {
+  /** Index of the row in the updated rows */
+  readonly rowIdx: number;
+  /** Key of the row, if `rowKeyGetter` is set */
+  readonly rowKey: Key | undefined;
+  readonly columnKey: string;
+  /** `undefined` if the row was appended */
+  readonly oldValue: unknown;
+  readonly newValue: unknown;
+}
+
 export interface RowsChangeData<R, SR = unknown> {
   indexes: number[];
+  /** The column where the change started. Use `changes` to get all the changed cells */
   column: CalculatedColumn<R, SR>;
+  source: RowsChangeSource;
+  /** The changed cells, in the order of `indexes` */
+  changes: CellChange[];
+}
+
+/** The data of the dragged rows, serialized as JSON with the `ROWS_DRAG_MIME_TYPE` type */
+export interface RowsDragData<TRow = unknown, K = Key> {
+  /** Keys of the dragged rows, empty when the source grid has no `rowKeyGetter` */
+  readonly rowKeys: readonly K[];
+  readonly rows: readonly TRow[];
+}
+
+export interface RowsDropEvent {
+  /**
+   * The dropped rows, parsed from JSON set by another grid or by any element,
+   * so the rows and keys are copies that must be validated before use
+   */
+  readonly data: RowsDragData<unknown, unknown>;
+  /** Index in `rows` where the dropped rows are inserted */
+  readonly toIndex: number;
 }
 
 export interface SelectRowEvent<TRow> {
@@ -299,12 +426,54 @@ export interface SelectHeaderRowEvent {
   checked: boolean;
 }
 
+/** `start` and `end` follow the direction of the grid */
+export type FillDirection = 'up' | 'down' | 'start' | 'end';
+
 export interface FillEvent<TRow> {
+  /** Key of the column of the target cell */
   columnKey: string;
+  /** Key of the column of the source cell, it differs from `columnKey` when filling horizontally */
+  sourceColumnKey: string;
+  /** Row of the source cell, the target row itself when filling horizontally */
   sourceRow: TRow;
   targetRow: TRow;
+  /** Value to fill the target cell with, the next value of the series if a series was detected */
+  value: unknown;
+  sourceRange: CellRange;
+  targetRange: CellRange;
+  direction: FillDirection;
 }
 
+/** Change announced to assistive technologies in a live region */
+export type Announcement<TRow, TSummaryRow = unknown> =
+  | {
+      readonly type: 'columnResize';
+      readonly column: CalculatedColumn<TRow, TSummaryRow>;
+      readonly width: number;
+    }
+  | {
+      readonly type: 'columnMove';
+      readonly column: CalculatedColumnOrColumnGroup<TRow, TSummaryRow>;
+      /** Position of the first column of the moved column or group, starting at 1 */
+      readonly position: number;
+      readonly columnsCount: number;
+    }
+  | {
+      readonly type: 'rowMove';
+      /** Position of the moved row, starting at 1 */
+      readonly position: number;
+      readonly rowsCount: number;
+    }
+  | {
+      /** The fill target was extended with the keyboard, and can be filled with Enter */
+      readonly type: 'fillTarget';
+      readonly direction: FillDirection;
+      /** Number of rows when filling up or down, number of columns otherwise */
+      readonly count: number;
+    }
+  | { readonly type: 'fillCancel' }
+  | { readonly type: 'fill'; readonly cellsCount: number };
+
 interface CellCopyPasteArgs<TRow, TSummaryRow = unknown> {
   column: CalculatedColumn<TRow, TSummaryRow>;
   row: TRow;
@@ -330,6 +499,57 @@ export interface SortColumn {
   readonly direction: SortDirection;
 }
 
+export interface FilterOption {
+  readonly label: string;
+  readonly value: unknown;
+}
+
+export type ColumnFilter<TRow> =
+  | { readonly type: 'text' }
+  | { readonly type: 'number' }
+  | { readonly type: 'date' }
+  | { readonly type: 'set'; readonly options: readonly FilterOption[] }
+  /** Lists the distinct values of the column with their count, the selected values are filtered as a `set` */
+  | {
+      readonly type: 'facet';
+      /** Returns the value of the row to filter on, the cell value is used by default */
+      readonly getValue?: Maybe<(row: TRow) => unknown>;
+      /** Returns the label of a value, the value is converted to a string by default */
+      readonly formatValue?: Maybe<(value: unknown) => string>;
+    };
+
+export type FilterValue =
+  /** Rows with a cell value containing the text, ignoring case */
+  | { readonly type: 'text'; readonly text: string }
+  /** Rows with a cell value between `min` and `max`, inclusive */
+  | {
+      readonly type: 'number';
+      readonly min?: number | undefined;
+      readonly max?: number | undefined;
+    }
+  /** Rows with a cell value between the `from` and `to` dates, inclusive, formatted as `YYYY-MM-DD` */
+  | { readonly type: 'date'; readonly from?: string | undefined; readonly to?: string | undefined }
+  /** Rows with a cell value included in the values */
+  | { readonly type: 'set'; readonly values: readonly unknown[] };
+
+/** The filter values by column key */
+export type Filters = ReadonlyMap<string, FilterValue>;
+
+/** Serializable state of the grid, returned by the `getState` function of `useGridState` */
+export interface GridState {
+  /** Version of the state format, states saved with another version are discarded */
+  readonly version: number;
+  readonly columnOrder: readonly string[];
+  /** Widths of the resized columns by column key */
+  readonly columnWidths: Readonly<Record<string, number>>;
+  readonly hiddenColumns: readonly string[];
+  readonly sortColumns: readonly SortColumn[];
+  readonly filters: Readonly<Record<string, FilterValue>>;
+  readonly expandedGroupIds: readonly unknown[];
+  readonly scrollTop: number;
+  readonly scrollLeft: number;
+}
+
 export type CellNavigationMode = 'NONE' | 'CHANGE_ROW';
 export type SortDirection = 'ASC' | 'DESC';
 
@@ -360,12 +580,22 @@ export interface RenderCheckboxProps extends Pick<
   onChange: (checked: boolean, shift: boolean) => void;
 }
 
+/** The default options of the columns of a given `type` */
+export type ColumnType<TRow, TSummaryRow = unknown> = Pick<
+  Column<TRow, TSummaryRow>,
+  'align' | 'formatValue' | 'parseValue' | 'compareValues' | 'renderCell' | 'renderEditCell'
+>;
+
 export interface Renderers<TRow, TSummaryRow> {
   renderCell?: Maybe<(key: Key, props: CellRendererProps<TRow, TSummaryRow>) => ReactNode>;
   renderCheckbox?: Maybe<(props: RenderCheckboxProps) => ReactNode>;
   renderRow?: Maybe<(key: Key, props: RenderRowProps<TRow, TSummaryRow>) => ReactNode>;
   renderSortStatus?: Maybe<(props: RenderSortStatusProps) => ReactNode>;
   noRowsFallback?: Maybe<ReactNode>;
+  /** Text announced to assistive technologies, nothing is announced when it returns `null` */
+  renderAnnouncement?: Maybe<(announcement: Announcement<TRow, TSummaryRow>) => ReactNode>;
+  /** Column types by name, registered types take precedence over the built-in types */
+  columnTypes?: Maybe<Readonly<Record<string, ColumnType<TRow, TSummaryRow>>>>;
 }
 
 export interface SetActivePositionOptions {
@@ -380,6 +610,23 @@ export interface ColumnWidth {
 
 export type ColumnWidths = ReadonlyMap<string, ColumnWidth>;
 
+export interface AutosizeColumnsOptions {
+  /** Include the header cells when measuring the content, `true` by default */
+  readonly includeHeader?: Maybe<boolean>;
+  /** Skip the columns that were resized, by the user or by a previous autosize */
+  readonly skipResized?: Maybe<boolean>;
+  /**
+   * Number of rows, evenly spread over all the rows, measured in addition to the rendered rows, `100` by default.
+   * Use `Infinity` to measure all the rows
+   */
+  readonly sampleSize?: Maybe<number>;
+  /**
+   * - `'content'`: fit the columns to their content
+   * - `'gridWidth'`: fit the columns to the width of the grid, proportionally to their content
+   */
+  readonly mode?: Maybe<'content' | 'gridWidth'>;
+}
+
 export type Direction = 'ltr' | 'rtl';
 
 export type ResizedWidth = number | 'max-content';
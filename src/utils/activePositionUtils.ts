@@ -31,6 +31,7 @@ interface GetNextPositionOpts<R, SR> {
   nextPosition: Position;
   nextPositionIsCellInActiveBounds: boolean;
   lastFrozenColumnIndex: number;
+  firstEndFrozenColumnIndex: number;
 }
 
 function getCellColSpan<R, SR>({
@@ -40,25 +41,28 @@ function getCellColSpan<R, SR>({
   rowIdx,
   mainHeaderRowIdx,
   lastFrozenColumnIndex,
+  firstEndFrozenColumnIndex,
   column
 }: Pick<
   GetNextPositionOpts<R, SR>,
-  'rows' | 'topSummaryRows' | 'bottomSummaryRows' | 'lastFrozenColumnIndex' | 'mainHeaderRowIdx'
+  | 'rows'
+  | 'topSummaryRows'
+  | 'bottomSummaryRows'
+  | 'lastFrozenColumnIndex'
+  | 'firstEndFrozenColumnIndex'
+  | 'mainHeaderRowIdx'
 > & {
   rowIdx: number;
   column: CalculatedColumn<R, SR>;
 }) {
   const topSummaryRowsCount = topSummaryRows?.length ?? 0;
-  if (rowIdx === mainHeaderRowIdx) {
-    return getColSpan(column, lastFrozenColumnIndex, { type: 'HEADER' });
+  // the filter row, if any, is rendered between the main header row and the top summary rows
+  if (rowIdx >= mainHeaderRowIdx && rowIdx < -topSummaryRowsCount) {
+    return getColSpan(column, lastFrozenColumnIndex, firstEndFrozenColumnIndex, { type: 'HEADER' });
   }
 
-  if (
-    topSummaryRows &&
-    rowIdx > mainHeaderRowIdx &&
-    rowIdx <= topSummaryRowsCount + mainHeaderRowIdx
-  ) {
-    return getColSpan(column, lastFrozenColumnIndex, {
+  if (topSummaryRows && rowIdx >= -topSummaryRowsCount && rowIdx < 0) {
+    return getColSpan(column, lastFrozenColumnIndex, firstEndFrozenColumnIndex, {
       type: 'SUMMARY',
       row: topSummaryRows[rowIdx + topSummaryRowsCount]
     });
@@ -66,11 +70,14 @@ function getCellColSpan<R, SR>({
 
   if (rowIdx >= 0 && rowIdx < rows.length) {
     const row = rows[rowIdx];
-    return getColSpan(column, lastFrozenColumnIndex, { type: 'ROW', row });
+    return getColSpan(column, lastFrozenColumnIndex, firstEndFrozenColumnIndex, {
+      type: 'ROW',
+      row
+    });
   }
 
   if (bottomSummaryRows) {
-    return getColSpan(column, lastFrozenColumnIndex, {
+    return getColSpan(column, lastFrozenColumnIndex, firstEndFrozenColumnIndex, {
       type: 'SUMMARY',
       row: bottomSummaryRows[rowIdx - rows.length]
     });
@@ -94,7 +101,8 @@ export function getNextActivePosition<R, SR>({
   activePosition: { idx: activeIdx, rowIdx: activeRowIdx },
   nextPosition,
   nextPositionIsCellInActiveBounds,
-  lastFrozenColumnIndex
+  lastFrozenColumnIndex,
+  firstEndFrozenColumnIndex
 }: GetNextPositionOpts<R, SR>): Position {
   let { idx: nextIdx, rowIdx: nextRowIdx } = nextPosition;
   const columnsCount = columns.length;
@@ -112,6 +120,7 @@ export function getNextActivePosition<R, SR>({
         rowIdx: nextRowIdx,
         mainHeaderRowIdx,
         lastFrozenColumnIndex,
+        firstEndFrozenColumnIndex,
         column
       });
 
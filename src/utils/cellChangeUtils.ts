@@ -0,0 +1,42 @@
+import type { Key } from 'react';
+
+import type { CellChange, ColumnOrColumnGroup, Maybe } from '../types';
+import { getCellValue } from './columnUtils';
+
+/**
+ * Compares the values of the columns, including the columns of column groups, in the old and new rows.
+ * Computed columns, with a `getValue` function but no `setValue` function, are skipped
+ * as their values are derived from the other columns
+ */
+export function getCellChanges<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  rowKeyGetter: Maybe<(row: R) => Key>,
+  rowIdx: number,
+  oldRow: R | undefined,
+  newRow: R
+): CellChange[] {
+  const changes: CellChange[] = [];
+  const rowKey = rowKeyGetter?.(newRow);
+
+  function collectChanges(columns: readonly ColumnOrColumnGroup<R, SR>[]) {
+    for (const column of columns) {
+      if ('children' in column) {
+        collectChanges(column.children);
+        continue;
+      }
+
+      if (typeof column.getValue === 'function' && typeof column.setValue !== 'function') {
+        continue;
+      }
+
+      const oldValue = oldRow === undefined ? undefined : getCellValue(column, oldRow);
+      const newValue = getCellValue(column, newRow);
+      if (!Object.is(oldValue, newValue)) {
+        changes.push({ rowIdx, rowKey, columnKey: column.key, oldValue, newValue });
+      }
+    }
+  }
+
+  collectChanges(columns);
+  return changes;
+}
@@ -0,0 +1,60 @@
+import type { CellRange, Position } from '../types';
+
+export function getCellRange(anchor: Position, head: Position): CellRange {
+  return {
+    startIdx: Math.min(anchor.idx, head.idx),
+    startRowIdx: Math.min(anchor.rowIdx, head.rowIdx),
+    endIdx: Math.max(anchor.idx, head.idx),
+    endRowIdx: Math.max(anchor.rowIdx, head.rowIdx)
+  };
+}
+
+/**
+ * The anchor of a range is always one of its corners,
+ * so the head is the corner at the opposite side of the anchor
+ */
+export function getCellRangeHead(range: CellRange, anchor: Position): Position {
+  return {
+    idx: range.startIdx === anchor.idx ? range.endIdx : range.startIdx,
+    rowIdx: range.startRowIdx === anchor.rowIdx ? range.endRowIdx : range.startRowIdx
+  };
+}
+
+export function isCellRangeInBounds(
+  { startIdx, startRowIdx, endIdx, endRowIdx }: CellRange,
+  maxColIdx: number,
+  rowsCount: number
+) {
+  return (
+    startIdx >= 0 &&
+    startRowIdx >= 0 &&
+    startIdx <= endIdx &&
+    startRowIdx <= endRowIdx &&
+    endIdx <= maxColIdx &&
+    endRowIdx < rowsCount
+  );
+}
+
+export function isSingleCellRange({ startIdx, startRowIdx, endIdx, endRowIdx }: CellRange) {
+  return startIdx === endIdx && startRowIdx === endRowIdx;
+}
+
+export function isRowInCellRange(range: CellRange, rowIdx: number) {
+  return rowIdx >= range.startRowIdx && rowIdx <= range.endRowIdx;
+}
+
+export function isCellInCellRange(range: CellRange, idx: number, colSpan = 1) {
+  return idx <= range.endIdx && idx + colSpan - 1 >= range.startIdx;
+}
+
+export function isSameCellRange(r1: CellRange | null, r2: CellRange | null) {
+  if (r1 === r2) return true;
+  if (r1 === null || r2 === null) return false;
+
+  return (
+    r1.startIdx === r2.startIdx &&
+    r1.startRowIdx === r2.startRowIdx &&
+    r1.endIdx === r2.endIdx &&
+    r1.endRowIdx === r2.endRowIdx
+  );
+}
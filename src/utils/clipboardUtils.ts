@@ -0,0 +1,126 @@
+import type { CalculatedColumn } from '../types';
+import { getCellValue, setCellValue } from './columnUtils';
+
+export function getCellClipboardText<R, SR>(column: CalculatedColumn<R, SR>, row: R): string {
+  if (typeof column.getClipboardText === 'function') {
+    return column.getClipboardText(row);
+  }
+
+  const value = getCellValue(column, row);
+  return value == null ? '' : String(value);
+}
+
+export function setCellClipboardText<R, SR>(
+  column: CalculatedColumn<R, SR>,
+  row: R,
+  text: string
+): R {
+  if (typeof column.setClipboardText === 'function') {
+    return column.setClipboardText(row, text);
+  }
+
+  if (typeof column.parseValue === 'function') {
+    const value = column.parseValue(text);
+    // invalid values leave the cell unchanged
+    return value === undefined ? row : setCellValue(column, row, value);
+  }
+
+  return setCellValue(column, row, text);
+}
+
+// https://www.rfc-editor.org/rfc/rfc4180#section-2
+// spreadsheet apps use the same quoting rules for tab separated values
+function escapeTSVValue(value: string) {
+  if (/[\t\n\r"]/.test(value)) {
+    return `"${value.replaceAll('"', '""')}"`;
+  }
+
+  return value;
+}
+
+export function serializeToTSV(values: readonly (readonly string[])[]): string {
+  return values.map((rowValues) => rowValues.map(escapeTSVValue).join('\t')).join('\n');
+}
+
+function escapeHTML(value: string) {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('\n', '<br>');
+}
+
+export function serializeToHTML(values: readonly (readonly string[])[]): string {
+  const rows = values.map((rowValues) => {
+    const cells = rowValues.map((value) => `<td>${escapeHTML(value)}</td>`);
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  return `<table><tbody>${rows.join('')}</tbody></table>`;
+}
+
+export function parseTSV(text: string): string[][] {
+  const values: string[][] = [];
+  let rowValues: string[] = [];
+  let value = '';
+  let isFieldStart = true;
+  let isQuoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (isQuoted) {
+      if (char !== '"') {
+        value += char;
+      } else if (text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else {
+        isQuoted = false;
+      }
+    } else if (char === '"' && isFieldStart) {
+      isQuoted = true;
+      isFieldStart = false;
+    } else if (char === '\t') {
+      rowValues.push(value);
+      value = '';
+      isFieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rowValues.push(value);
+      values.push(rowValues);
+      rowValues = [];
+      value = '';
+      isFieldStart = true;
+    } else {
+      value += char;
+      isFieldStart = false;
+    }
+  }
+
+  // spreadsheet apps usually end the last line with a line break
+  if (!isFieldStart || rowValues.length > 0) {
+    rowValues.push(value);
+    values.push(rowValues);
+  }
+
+  return values;
+}
+
+export function parseHTMLTable(html: string): string[][] {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (table === null) return [];
+
+  for (const br of table.querySelectorAll('br')) {
+    br.replaceWith('\n');
+  }
+
+  return Array.from(table.rows, (row) => Array.from(row.cells, (cell) => cell.textContent));
+}
+
+export function getClipboardValues(clipboardData: DataTransfer): string[][] {
+  const text = clipboardData.getData('text/plain');
+  if (text !== '') return parseTSV(text);
+  return parseHTMLTable(clipboardData.getData('text/html'));
+}
@@ -3,6 +3,7 @@ import type { CalculatedColumn, ColSpanArgs } from '../types';
 export function getColSpan<R, SR>(
   column: CalculatedColumn<R, SR>,
   lastFrozenColumnIndex: number,
+  firstEndFrozenColumnIndex: number,
   args: ColSpanArgs<R, SR>
 ): number | undefined {
   if (typeof column.colSpan !== 'function') return undefined;
@@ -13,7 +14,10 @@ export function getColSpan<R, SR>(
     Number.isInteger(colSpan) &&
     colSpan! > 1 &&
     // ignore colSpan if it spans over both frozen and regular columns
-    (!column.frozen || column.idx + colSpan! - 1 <= lastFrozenColumnIndex)
+    (column.frozen === 'end' ||
+      (column.frozen === 'start'
+        ? column.idx + colSpan! - 1 <= lastFrozenColumnIndex
+        : column.idx + colSpan! - 1 < firstEndFrozenColumnIndex))
   ) {
     return colSpan!;
   }
@@ -0,0 +1,207 @@
+import type {
+  CalculatedColumn,
+  CalculatedColumnOrColumnGroup,
+  Column,
+  ColumnOrColumnGroup,
+  Maybe
+} from '../types';
+
+export function findColumn<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  columnKey: string
+): Column<R, SR> | undefined {
+  for (const column of columns) {
+    if ('children' in column) {
+      const childColumn = findColumn(column.children, columnKey);
+      if (childColumn !== undefined) return childColumn;
+    } else if (column.key === columnKey) {
+      return column;
+    }
+  }
+
+  return undefined;
+}
+
+export function getCellValue<R, SR>(column: Column<R, SR>, row: R): unknown {
+  if (typeof column.getValue === 'function') {
+    return column.getValue(row);
+  }
+
+  if (column.path == null) {
+    return row[column.key as keyof R];
+  }
+
+  let value: unknown = row;
+  for (const segment of column.path.split('.')) {
+    if (value == null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+export function setCellValue<R, SR>(column: Column<R, SR>, row: R, value: unknown): R {
+  if (typeof column.setValue === 'function') {
+    return column.setValue(row, value);
+  }
+
+  if (column.path == null) {
+    return { ...row, [column.key]: value };
+  }
+
+  return setPathValue(row, column.path.split('.'), value) as R;
+}
+
+// the objects along the path are copied, and created when missing
+function setPathValue(object: unknown, path: readonly string[], value: unknown): unknown {
+  const [segment, ...rest] = path;
+  const record = (object ?? {}) as Record<string, unknown>;
+  return {
+    ...record,
+    [segment]: rest.length === 0 ? value : setPathValue(record[segment], rest, value)
+  };
+}
+
+/** `hiddenColumns` takes precedence over the `hidden` column option */
+export function isColumnHidden<R, SR>(
+  column: Column<R, SR>,
+  hiddenColumns: Maybe<ReadonlySet<string>>
+): boolean {
+  return hiddenColumns == null ? column.hidden === true : hiddenColumns.has(column.key);
+}
+
+/**
+ * Sorts the columns, and the children of column groups, by their position in `columnOrder`.
+ * Column groups are sorted by the position of their first column, so they are never split.
+ * Columns missing from `columnOrder` keep their relative order after the other columns
+ */
+export function applyColumnOrder<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  columnOrder: Maybe<readonly string[]>
+): readonly ColumnOrColumnGroup<R, SR>[] {
+  if (columnOrder == null) return columns;
+
+  const positions = new Map(columnOrder.map((key, index) => [key, index]));
+
+  function sortColumns(
+    columns: readonly ColumnOrColumnGroup<R, SR>[]
+  ): [column: ColumnOrColumnGroup<R, SR>, position: number][] {
+    return columns
+      .map((column): [ColumnOrColumnGroup<R, SR>, number] => {
+        if ('children' in column) {
+          const children = sortColumns(column.children);
+          const position = children.length === 0 ? columnOrder!.length : children[0][1];
+          return [{ ...column, children: children.map(([child]) => child) }, position];
+        }
+        return [column, positions.get(column.key) ?? columnOrder!.length];
+      })
+      .sort((a, b) => a[1] - b[1]);
+  }
+
+  return sortColumns(columns).map(([column]) => column);
+}
+
+export function getColumnKeys<R, SR>(columns: readonly ColumnOrColumnGroup<R, SR>[]): string[] {
+  return columns.flatMap((column) =>
+    'children' in column ? getColumnKeys(column.children) : column.key
+  );
+}
+
+/**
+ * Moves the source column, or column group, next to the target and returns the keys of all the columns,
+ * hidden columns included, in their new order.
+ * The source is moved after the target when it is dragged forward, and before the target otherwise
+ */
+export function reorderColumns<R, SR>(
+  rawColumns: readonly ColumnOrColumnGroup<R, SR>[],
+  columns: readonly CalculatedColumn<R, SR>[],
+  source: CalculatedColumnOrColumnGroup<R, SR>,
+  target: CalculatedColumnOrColumnGroup<R, SR>
+): string[] {
+  const columnKeys = getColumnKeys(rawColumns);
+  const sourceKeys = getColumnKeys([findRawColumn(rawColumns, columns, source)]);
+  const targetKeys = getColumnKeys([findRawColumn(rawColumns, columns, target)]);
+  const newColumnKeys = columnKeys.filter((key) => !sourceKeys.includes(key));
+  const isMovingForward = source.idx < target.idx;
+  const targetIndex = newColumnKeys.indexOf(
+    isMovingForward ? targetKeys[targetKeys.length - 1] : targetKeys[0]
+  );
+  newColumnKeys.splice(isMovingForward ? targetIndex + 1 : targetIndex, 0, ...sourceKeys);
+  return newColumnKeys;
+}
+
+// hidden columns are included in the raw column groups, but not in the calculated column groups
+function findRawColumn<R, SR>(
+  rawColumns: readonly ColumnOrColumnGroup<R, SR>[],
+  columns: readonly CalculatedColumn<R, SR>[],
+  column: CalculatedColumnOrColumnGroup<R, SR>
+): ColumnOrColumnGroup<R, SR> {
+  // the calculated parents of the first column of a group match the raw column groups containing it
+  let current: CalculatedColumnOrColumnGroup<R, SR> = columns[column.idx];
+  let depth = 0;
+  while (current !== column) {
+    current = current.parent!;
+    depth++;
+  }
+
+  const path = findColumnPath(rawColumns, columns[column.idx].key)!;
+  return path[path.length - 1 - depth];
+}
+
+function findColumnPath<R, SR>(
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  columnKey: string
+): ColumnOrColumnGroup<R, SR>[] | undefined {
+  for (const column of columns) {
+    if ('children' in column) {
+      const path = findColumnPath(column.children, columnKey);
+      if (path !== undefined) return [column, ...path];
+    } else if (column.key === columnKey) {
+      return [column];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Columns and column groups can only be dropped on a draggable sibling with the same parent,
+ * and cannot be moved across the frozen boundary
+ */
+export function getColumnDropPosition<R, SR>(
+  columns: readonly CalculatedColumn<R, SR>[],
+  source: CalculatedColumnOrColumnGroup<R, SR>,
+  target: CalculatedColumnOrColumnGroup<R, SR>
+): 'start' | 'end' | undefined {
+  if (
+    source === target ||
+    !target.draggable ||
+    source.parent !== target.parent ||
+    columns[source.idx].frozen !== columns[target.idx].frozen
+  ) {
+    return undefined;
+  }
+
+  return source.idx < target.idx ? 'end' : 'start';
+}
+
+/**
+ * Returns the column or column group next to the column, on the same level,
+ * or `undefined` when the column is the first or last column of the grid
+ */
+export function getSiblingColumn<R, SR>(
+  columns: readonly CalculatedColumn<R, SR>[],
+  column: CalculatedColumnOrColumnGroup<R, SR>,
+  offset: -1 | 1
+): CalculatedColumnOrColumnGroup<R, SR> | undefined {
+  const idx = offset === 1 ? column.idx + getColumnSpan(column) : column.idx - 1;
+  let sibling: CalculatedColumnOrColumnGroup<R, SR> | undefined = columns[idx];
+  while (sibling !== undefined && sibling.parent !== column.parent) {
+    sibling = sibling.parent;
+  }
+  return sibling;
+}
+
+/** Returns the number of columns spanned by the column or column group */
+export function getColumnSpan<R, SR>(column: CalculatedColumnOrColumnGroup<R, SR>): number {
+  return 'key' in column ? 1 : column.colSpan;
+}
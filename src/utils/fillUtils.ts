@@ -0,0 +1,178 @@
+import type { CellRange, FillDirection, Position } from '../types';
+import { getDateString, getDayNumber } from './valueUtils';
+
+const msPerDay = 24 * 60 * 60 * 1000;
+
+/**
+ * The fill target extends the source range towards the position,
+ * along the axis where the position is the furthest from the source range
+ */
+export function getFillTargetRange(
+  { startIdx, startRowIdx, endIdx, endRowIdx }: CellRange,
+  { idx, rowIdx }: Position
+): CellRange | undefined {
+  const rowDistance =
+    rowIdx > endRowIdx ? rowIdx - endRowIdx : rowIdx < startRowIdx ? startRowIdx - rowIdx : 0;
+  const colDistance = idx > endIdx ? idx - endIdx : idx < startIdx ? startIdx - idx : 0;
+
+  if (rowDistance === 0 && colDistance === 0) return;
+
+  if (rowDistance >= colDistance) {
+    return rowIdx > endRowIdx
+      ? { startIdx, startRowIdx: endRowIdx + 1, endIdx, endRowIdx: rowIdx }
+      : { startIdx, startRowIdx: rowIdx, endIdx, endRowIdx: startRowIdx - 1 };
+  }
+
+  return idx > endIdx
+    ? { startIdx: endIdx + 1, startRowIdx, endIdx: idx, endRowIdx }
+    : { startIdx: idx, startRowIdx, endIdx: startIdx - 1, endRowIdx };
+}
+
+export function getFillDirection(sourceRange: CellRange, targetRange: CellRange): FillDirection {
+  if (targetRange.startRowIdx > sourceRange.endRowIdx) return 'down';
+  if (targetRange.endRowIdx < sourceRange.startRowIdx) return 'up';
+  if (targetRange.startIdx > sourceRange.endIdx) return 'end';
+  return 'start';
+}
+
+function getDecimalCount(value: number) {
+  // small and large numbers are written with an exponent, like 1e-7
+  const [mantissa, exponent = '0'] = value.toString().split('e');
+  const mantissaDecimalCount = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, mantissaDecimalCount - Number(exponent));
+}
+
+function getConstantStep(values: readonly number[]): number | undefined {
+  const step = values[1] - values[0];
+  const tolerance = 1e-9 * Math.max(1, ...values.map(Math.abs));
+
+  for (let i = 2; i < values.length; i++) {
+    if (Math.abs(values[i] - values[i - 1] - step) > tolerance) return;
+  }
+
+  return step;
+}
+
+function getTimeOfDay(date: Date) {
+  return date.getTime() - new Date(date).setHours(0, 0, 0, 0);
+}
+
+function createNumberSeries(values: readonly number[]) {
+  if (values.length < 2) return;
+  const step = getConstantStep(values);
+  if (step === undefined) return;
+  const decimalCount = Math.min(Math.max(...values.map(getDecimalCount)), 100);
+  const start = values[0];
+
+  // round the result to avoid floating point errors like 0.30000000000000004
+  return (offset: number) => Number((start + offset * step).toFixed(decimalCount));
+}
+
+function createDateSeries(values: readonly Date[]) {
+  const start = values[0];
+  const timeOfDay = getTimeOfDay(start);
+
+  // step by calendar days when possible, so series are not affected by daylight saving time
+  if (values.every((date) => getTimeOfDay(date) === timeOfDay)) {
+    const step =
+      values.length === 1 ? 1 : getConstantStep(values.map((date) => getDayNumber(date)!));
+    if (step === undefined) return;
+    return (offset: number) => {
+      const date = new Date(start);
+      date.setDate(date.getDate() + offset * step);
+      return date;
+    };
+  }
+
+  if (values.length < 2) return;
+  const step = getConstantStep(values.map((date) => date.getTime()));
+  if (step === undefined) return;
+  return (offset: number) => new Date(start.getTime() + offset * step);
+}
+
+// the `date` column type stores the calendar days as `YYYY-MM-DD` strings
+function isDateString(value: unknown): value is string {
+  return (
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && getDateString(value) === value
+  );
+}
+
+function createDateStringSeries(values: readonly string[]) {
+  const dayNumbers = values.map((value) => getDayNumber(value)!);
+  const step = values.length === 1 ? 1 : getConstantStep(dayNumbers);
+  if (step === undefined) return;
+  return (offset: number) =>
+    new Date((dayNumbers[0] + offset * step) * msPerDay).toISOString().slice(0, 10);
+}
+
+function getTrailingDigitsIndex(value: string) {
+  let index = value.length;
+  while (index > 0 && value[index - 1] >= '0' && value[index - 1] <= '9') {
+    index--;
+  }
+  return index;
+}
+
+function createTextSeries(values: readonly string[]) {
+  const prefixLength = getTrailingDigitsIndex(values[0]);
+  const prefix = values[0].slice(0, prefixLength);
+  const digits = values[0].slice(prefixLength);
+  if (digits === '') return;
+
+  const numbers: number[] = [];
+  for (const value of values) {
+    if (!value.startsWith(prefix) || getTrailingDigitsIndex(value) !== prefixLength) return;
+    numbers.push(Number(value.slice(prefixLength)));
+  }
+
+  // "1" is not a series, but "Item 1" is
+  const step = numbers.length === 1 ? (prefix === '' ? undefined : 1) : getConstantStep(numbers);
+  if (step === undefined) return;
+
+  // preserve leading zeros, like "Item 01"
+  const minLength = digits.startsWith('0') ? digits.length : 0;
+  // the text has no sign, so descending series stop at 0
+  return (offset: number) =>
+    `${prefix}${String(Math.max(0, numbers[0] + offset * step)).padStart(minLength, '0')}`;
+}
+
+function createSeries(values: readonly unknown[]): ((offset: number) => unknown) | undefined {
+  if (values.every((value) => typeof value === 'number' && Number.isFinite(value))) {
+    return createNumberSeries(values as number[]);
+  }
+
+  if (values.every((value) => value instanceof Date && !Number.isNaN(value.getTime()))) {
+    return createDateSeries(values as Date[]);
+  }
+
+  if (values.every(isDateString)) {
+    return createDateStringSeries(values);
+  }
+
+  if (values.every((value) => typeof value === 'string')) {
+    return createTextSeries(values);
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns a function to get the value at the given offset from the first source value.
+ * Offsets before the first source value are negative.
+ * Values are repeated when `detectSeries` is `false` or when the values do not form a series:
+ * - numbers with a constant step, like 1, 3, 5
+ * - dates with a constant step, or a single date which is incremented by one day,
+ *   including `YYYY-MM-DD` strings which are stepped by calendar day
+ * - text ending with a number with a constant step, like "Item 1", "Item 2",
+ *   or a single text ending with a number which is incremented by one, descending series stop at 0
+ */
+export function createFillSeries(
+  values: readonly unknown[],
+  detectSeries: boolean
+): (offset: number) => unknown {
+  const series = detectSeries ? createSeries(values) : undefined;
+  if (series !== undefined) return series;
+
+  const { length } = values;
+  return (offset) => values[((offset % length) + length) % length];
+}
@@ -0,0 +1,102 @@
+import type { Column, ColumnOrColumnGroup, Filters, FilterValue } from '../types';
+import { findColumn, getCellValue } from './columnUtils';
+import { getDayNumber } from './valueUtils';
+
+/** Returns whether the filter value matches all the rows, like an empty text */
+export function isEmptyFilterValue(filterValue: FilterValue): boolean {
+  switch (filterValue.type) {
+    case 'text':
+      return filterValue.text === '';
+    case 'number':
+      return filterValue.min === undefined && filterValue.max === undefined;
+    case 'date':
+      return (
+        (filterValue.from === undefined || filterValue.from === '') &&
+        (filterValue.to === undefined || filterValue.to === '')
+      );
+    case 'set':
+    default:
+      // a set filter without values matches no rows
+      return false;
+  }
+}
+
+function createPredicate(filterValue: FilterValue): (value: unknown) => boolean {
+  switch (filterValue.type) {
+    case 'text': {
+      const text = filterValue.text.toLocaleLowerCase();
+      return (value) => value != null && String(value).toLocaleLowerCase().includes(text);
+    }
+    case 'number': {
+      const { min, max } = filterValue;
+      return (value) => {
+        if (value == null || value === '') return false;
+        const number = Number(value);
+        return (
+          !Number.isNaN(number) &&
+          (min === undefined || number >= min) &&
+          (max === undefined || number <= max)
+        );
+      };
+    }
+    case 'date': {
+      const from = getDayNumber(filterValue.from);
+      const to = getDayNumber(filterValue.to);
+      return (value) => {
+        const day = getDayNumber(value);
+        return (
+          day !== undefined &&
+          (from === undefined || day >= from) &&
+          (to === undefined || day <= to)
+        );
+      };
+    }
+    case 'set':
+    default: {
+      const values = new Set(filterValue.values);
+      return (value) => values.has(value);
+    }
+  }
+}
+
+/** Returns the value of the row used to filter the column */
+export function getFilterCellValue<R, SR>(column: Column<R, SR>, row: R): unknown {
+  const { filter } = column;
+  if (filter?.type === 'facet' && typeof filter.getValue === 'function') {
+    return filter.getValue(row);
+  }
+  return getCellValue(column, row);
+}
+
+/** Returns a function matching the rows against all the filters, or `undefined` if all the rows match */
+export function createRowPredicate<R, SR>(
+  filters: Filters,
+  columns: readonly ColumnOrColumnGroup<R, SR>[]
+): ((row: R) => boolean) | undefined {
+  const predicates: ((row: R) => boolean)[] = [];
+
+  for (const [columnKey, filterValue] of filters) {
+    if (isEmptyFilterValue(filterValue)) continue;
+    const column = findColumn(columns, columnKey);
+    if (column === undefined) continue;
+    const predicate = createPredicate(filterValue);
+    predicates.push((row) => predicate(getFilterCellValue(column, row)));
+  }
+
+  if (predicates.length === 0) return;
+  return (row) => predicates.every((predicate) => predicate(row));
+}
+
+/**
+ * Returns the rows matching all the filters.
+ * Empty filter values, like an empty text, match all the rows
+ */
+export function filterRows<R, SR>(
+  rows: readonly R[],
+  filters: Filters,
+  columns: readonly ColumnOrColumnGroup<R, SR>[]
+): R[] {
+  const predicate = createRowPredicate(filters, columns);
+  if (predicate === undefined) return [...rows];
+  return rows.filter(predicate);
+}
@@ -1,14 +1,25 @@
 import type { CalculatedColumn, CalculatedColumnOrColumnGroup, Maybe } from '../types';
 
 export * from './activePositionUtils';
+export * from './cellChangeUtils';
+export * from './cellRangeUtils';
+export * from './clipboardUtils';
 export * from './colSpanUtils';
+export * from './columnUtils';
 export * from './domUtils';
 export * from './eventUtils';
+export * from './fillUtils';
+export * from './filterUtils';
 export * from './keyboardUtils';
+export * from './pinnedRowsUtils';
 export * from './renderMeasuringCells';
+export * from './rowReorderUtils';
+export * from './searchUtils';
+export * from './sortUtils';
 export * from './styleUtils';
+export * from './valueUtils';
 
-export const { min, max, floor, abs } = Math;
+export const { min, max, floor, ceil, abs } = Math;
 
 export function assertIsValidKeyGetter<R, K extends React.Key>(
   keyGetter: Maybe<(row: NoInfer<R>) => K>
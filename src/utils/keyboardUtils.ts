@@ -96,3 +96,18 @@ export function getLeftRightKey(direction: Maybe<Direction>) {
     rightKey: isRtl ? 'ArrowLeft' : 'ArrowRight'
   } as const;
 }
+
+/**
+ * Returns the offset of the column moved with Ctrl+Shift+ArrowLeft/ArrowRight,
+ * towards the start or the end of the grid depending on the direction
+ */
+export function getColumnMoveOffset(
+  event: React.KeyboardEvent,
+  direction: Maybe<Direction>
+): -1 | 1 | undefined {
+  if (!isCtrlKeyHeldDown(event) || !event.shiftKey) return undefined;
+  const { leftKey, rightKey } = getLeftRightKey(direction);
+  if (event.key === leftKey) return -1;
+  if (event.key === rightKey) return 1;
+  return undefined;
+}
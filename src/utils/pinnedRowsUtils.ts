@@ -0,0 +1,48 @@
+import type { Key } from 'react';
+
+import type { Maybe } from '../types';
+
+interface PinnedRows<R> {
+  readonly rows: readonly R[];
+  readonly topPinnedRowsCount: number;
+  readonly bottomPinnedRowsCount: number;
+}
+
+/**
+ * Moves the rows with the given keys to the start or the end of the rows, in the order of the keys.
+ * Keys that do not match a row are ignored, a row pinned to the top cannot also be pinned to the bottom
+ */
+export function pinRows<R, K extends Key>(
+  rows: readonly R[],
+  rowKeyGetter: (row: R) => K,
+  topPinnedRowKeys: Maybe<readonly K[]>,
+  bottomPinnedRowKeys: Maybe<readonly K[]>
+): PinnedRows<R> {
+  if ((topPinnedRowKeys?.length ?? 0) === 0 && (bottomPinnedRowKeys?.length ?? 0) === 0) {
+    return { rows, topPinnedRowsCount: 0, bottomPinnedRowsCount: 0 };
+  }
+
+  const rowsByKey = new Map(rows.map((row) => [rowKeyGetter(row), row]));
+  const pinnedRows = new Set<R>();
+
+  function getPinnedRows(keys: Maybe<readonly K[]>) {
+    const result: R[] = [];
+    for (const key of keys ?? []) {
+      const row = rowsByKey.get(key);
+      if (row !== undefined && !pinnedRows.has(row)) {
+        pinnedRows.add(row);
+        result.push(row);
+      }
+    }
+    return result;
+  }
+
+  const topRows = getPinnedRows(topPinnedRowKeys);
+  const bottomRows = getPinnedRows(bottomPinnedRowKeys);
+
+  return {
+    rows: [...topRows, ...rows.filter((row) => !pinnedRows.has(row)), ...bottomRows],
+    topPinnedRowsCount: topRows.length,
+    bottomPinnedRowsCount: bottomRows.length
+  };
+}
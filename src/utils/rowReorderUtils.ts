@@ -0,0 +1,44 @@
+import type { RowsDragData } from '../types';
+
+/** The type of the data set on the drag events of the dragged rows */
+export const ROWS_DRAG_MIME_TYPE = 'application/x-react-data-grid-rows+json';
+
+/**
+ * Returns the rows with the rows at `fromIndexes` moved to `toIndex`, keeping their relative order.
+ * `toIndex` is the index where the moved rows are inserted, before they are removed
+ */
+export function moveRows<R>(
+  rows: readonly R[],
+  fromIndexes: readonly number[],
+  toIndex: number
+): R[] {
+  const movedIndexes = new Set(fromIndexes);
+  const movedRows = rows.filter((_, index) => movedIndexes.has(index));
+  const newRows = rows.filter((_, index) => !movedIndexes.has(index));
+  const insertIndex = toIndex - fromIndexes.filter((index) => index < toIndex).length;
+  newRows.splice(insertIndex, 0, ...movedRows);
+  return newRows;
+}
+
+/** Returns the dragged rows data, or `undefined` when the data is not valid */
+export function parseRowsDragData(text: string): RowsDragData<unknown, unknown> | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  if (
+    typeof data === 'object' &&
+    data !== null &&
+    'rowKeys' in data &&
+    'rows' in data &&
+    Array.isArray(data.rowKeys) &&
+    Array.isArray(data.rows)
+  ) {
+    return { rowKeys: data.rowKeys, rows: data.rows };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,50 @@
+import type { CalculatedColumn, Position } from '../types';
+import { getCellValue } from './columnUtils';
+
+// the formatted values are searched, as they are displayed by `renderValue`
+export function getCellSearchText<R, SR>(column: CalculatedColumn<R, SR>, row: R): string {
+  const value = getCellValue(column, row);
+  if (value == null) return '';
+  return column.formatValue == null ? String(value) : column.formatValue(value);
+}
+
+/**
+ * Returns the position of the next cell containing the search text, ignoring case.
+ * The cells are scanned row by row,
+ * starting after the given position and wrapping around.
+ * The scan starts at the first cell, or the last cell when `isBackward` is `true`,
+ * when the position is `undefined`.
+ */
+export function findSearchMatch<R, SR>(
+  rows: readonly R[],
+  columns: readonly CalculatedColumn<R, SR>[],
+  searchText: string,
+  position: Position | undefined,
+  isBackward: boolean
+): Position | undefined {
+  const columnsCount = columns.length;
+  const cellsCount = rows.length * columnsCount;
+  if (searchText === '' || cellsCount === 0) return;
+
+  const normalizedSearchText = searchText.toLocaleLowerCase();
+  const step = isBackward ? -1 : 1;
+  const startCellIdx =
+    position === undefined
+      ? isBackward
+        ? cellsCount
+        : -1
+      : position.rowIdx * columnsCount + position.idx;
+
+  // the start position is checked last, so a single match is found again
+  for (let offset = 1; offset <= cellsCount; offset++) {
+    const cellIdx = (((startCellIdx + offset * step) % cellsCount) + cellsCount) % cellsCount;
+    const rowIdx = Math.floor(cellIdx / columnsCount);
+    const idx = cellIdx % columnsCount;
+    const text = getCellSearchText(columns[idx], rows[rowIdx]).toLocaleLowerCase();
+    if (text.includes(normalizedSearchText)) {
+      return { idx, rowIdx };
+    }
+  }
+
+  return undefined;
+}
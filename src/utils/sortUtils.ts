@@ -0,0 +1,130 @@
+import type { ColumnOrColumnGroup, SortColumn } from '../types';
+import { findColumn, getCellValue } from './columnUtils';
+
+// numeric collation sorts "Item 2" before "Item 10"
+const defaultCollator = new Intl.Collator(undefined, { numeric: true });
+
+/** Empty values are sorted last in both directions */
+export function isEmptyValue(value: unknown): boolean {
+  return value == null || value === '';
+}
+
+/**
+ * Compares cell values in ascending order:
+ * numbers, bigints, dates and booleans are compared by value,
+ * other values are compared as text using the `collator`,
+ * which defaults to natural ordering in the default locale
+ */
+export function compareValues(
+  a: unknown,
+  b: unknown,
+  collator: Intl.Collator = defaultCollator
+): number {
+  if (
+    (typeof a === 'number' && typeof b === 'number') ||
+    (typeof a === 'bigint' && typeof b === 'bigint') ||
+    (typeof a === 'boolean' && typeof b === 'boolean')
+  ) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Returns a new array of rows sorted by the sort columns, in order of priority.
+ * Columns are sorted using their `comparator`, or by comparing cell values with their `compareValues` function.
+ * Empty values are sorted last in both directions, and rows with equal values keep their order.
+ * The `collator` is passed to the default `compareValues` function.
+ */
+export function sortRows<R, SR>(
+  rows: readonly R[],
+  sortColumns: readonly SortColumn[],
+  columns: readonly ColumnOrColumnGroup<R, SR>[],
+  collator: Intl.Collator = defaultCollator
+): R[] {
+  const comparators: ((a: R, b: R) => number)[] = [];
+
+  for (const { columnKey, direction } of sortColumns) {
+    const column = findColumn(columns, columnKey);
+    if (column === undefined) continue;
+    const sign = direction === 'ASC' ? 1 : -1;
+    const { comparator } = column;
+
+    if (typeof comparator === 'function') {
+      comparators.push((a, b) => sign * comparator(a, b));
+      continue;
+    }
+
+    const compare =
+      column.compareValues ??
+      ((aValue: unknown, bValue: unknown) => compareValues(aValue, bValue, collator));
+    comparators.push((a, b) => {
+      const aValue = getCellValue(column, a);
+      const bValue = getCellValue(column, b);
+      const isAEmpty = isEmptyValue(aValue);
+      const isBEmpty = isEmptyValue(bValue);
+      if (isAEmpty || isBEmpty) return Number(isAEmpty) - Number(isBEmpty);
+      return sign * compare(aValue, bValue);
+    });
+  }
+
+  if (comparators.length === 0) return [...rows];
+
+  // `toSorted` is stable so rows with equal values keep their relative order
+  return rows.toSorted((a, b) => {
+    for (const comparator of comparators) {
+      const result = comparator(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Maps the rows updated in the sorted rows back to the order of the unsorted rows.
+ * Rows are matched by reference, updated rows replace their old row,
+ * added rows are appended, and rows missing from the updated rows are removed
+ */
+export function unsortRowsChange<R>(
+  unsortedRows: readonly R[],
+  updatedRows: readonly R[],
+  indexes: readonly number[],
+  oldRows: readonly (R | undefined)[]
+): { rows: R[]; indexMap: ReadonlyMap<number, number> } {
+  const unsortedIndexes = new Map(unsortedRows.map((row, unsortedIdx) => [row, unsortedIdx]));
+  const oldRowsMap = new Map(indexes.map((rowIdx, i) => [rowIdx, oldRows[i]]));
+  const sortedIndexes = new Map<number, number>();
+  const addedIndexes: number[] = [];
+
+  for (let rowIdx = 0; rowIdx < updatedRows.length; rowIdx++) {
+    const previousRow = oldRowsMap.has(rowIdx) ? oldRowsMap.get(rowIdx) : updatedRows[rowIdx];
+    const unsortedIdx = previousRow === undefined ? undefined : unsortedIndexes.get(previousRow);
+    if (unsortedIdx === undefined) {
+      addedIndexes.push(rowIdx);
+    } else {
+      sortedIndexes.set(unsortedIdx, rowIdx);
+    }
+  }
+
+  const rows: R[] = [];
+  const indexMap = new Map<number, number>();
+
+  for (let unsortedIdx = 0; unsortedIdx < unsortedRows.length; unsortedIdx++) {
+    const rowIdx = sortedIndexes.get(unsortedIdx);
+    if (rowIdx === undefined) continue;
+    indexMap.set(rowIdx, rows.length);
+    rows.push(updatedRows[rowIdx]);
+  }
+
+  for (const rowIdx of addedIndexes) {
+    indexMap.set(rowIdx, rows.length);
+    rows.push(updatedRows[rowIdx]);
+  }
+
+  return { rows, indexMap };
+}
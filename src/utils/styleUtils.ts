@@ -1,5 +1,13 @@
 import type { CalculatedColumn, CalculatedColumnOrColumnGroup, Maybe } from '../types';
-import { cellClassname, cellFrozenClassname } from '../style/cell';
+import { cellClassname, cellFrozenClassname, cellFrozenEndClassname } from '../style/cell';
+
+/**
+ * Returns the total height of the first header rows,
+ * header rows can have different heights when `headerRowHeight` is `'auto'`
+ */
+export function getHeaderRowsHeight(rowsCount: number): string {
+  return rowsCount === 0 ? '0px' : `var(--rdg-header-rows-height-${rowsCount})`;
+}
 
 export function getHeaderCellStyle<R, SR>(
   column: CalculatedColumnOrColumnGroup<R, SR>,
@@ -7,7 +15,7 @@ export function getHeaderCellStyle<R, SR>(
   rowSpan: number
 ): React.CSSProperties {
   const gridRowEnd = rowIdx + 1;
-  const paddingBlockStart = `calc(${rowSpan - 1} * var(--rdg-header-row-height))`;
+  const paddingBlockStart = `calc(${getHeaderRowsHeight(rowIdx - 1)} - ${getHeaderRowsHeight(rowIdx - rowSpan)})`;
 
   if (column.parent === undefined) {
     return {
@@ -19,7 +27,7 @@ export function getHeaderCellStyle<R, SR>(
   }
 
   return {
-    insetBlockStart: `calc(${rowIdx - rowSpan} * var(--rdg-header-row-height))`,
+    insetBlockStart: getHeaderRowsHeight(rowIdx - rowSpan),
     gridRowStart: gridRowEnd - rowSpan,
     gridRowEnd,
     paddingBlockStart
@@ -34,7 +42,12 @@ export function getCellStyle<R, SR>(
   return {
     gridColumnStart: index,
     gridColumnEnd: index + colSpan,
-    insetInlineStart: column.frozen ? `var(--rdg-frozen-left-${column.idx})` : undefined
+    insetInlineStart:
+      column.frozen === 'start' ? `var(--rdg-frozen-left-${column.idx})` : undefined,
+    // cells spanning several columns are offset by the last spanned column
+    insetInlineEnd:
+      column.frozen === 'end' ? `var(--rdg-frozen-right-${column.idx + colSpan - 1})` : undefined,
+    textAlign: column.align ?? undefined
   };
 }
 
@@ -56,5 +69,10 @@ export function getCellClassname<R, SR>(
   column: CalculatedColumn<R, SR>,
   ...extraClasses: readonly ClassValue[]
 ): string {
-  return classnames(cellClassname, column.frozen && cellFrozenClassname, ...extraClasses);
+  return classnames(
+    cellClassname,
+    column.frozen && cellFrozenClassname,
+    column.frozen === 'end' && cellFrozenEndClassname,
+    ...extraClasses
+  );
 }
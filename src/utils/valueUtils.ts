@@ -0,0 +1,72 @@
+const msPerDay = 24 * 60 * 60 * 1000;
+
+// numbers are edited without grouping so the text can be parsed back
+const numberInputFormat = new Intl.NumberFormat(undefined, {
+  useGrouping: false,
+  maximumFractionDigits: 20
+});
+const numberParts = new Intl.NumberFormat().formatToParts(-1234.5);
+const groupSeparator = numberParts.find((part) => part.type === 'group')?.value ?? ',';
+const decimalSeparator = numberParts.find((part) => part.type === 'decimal')?.value ?? '.';
+
+// dates are compared by calendar day, ignoring the time of the day
+export function getDayNumber(value: unknown): number | undefined {
+  // date strings are parsed as is, as `new Date()` would parse them in UTC
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / msPerDay;
+  }
+
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / msPerDay;
+}
+
+/** Returns the calendar day of a date value as a UTC date */
+export function getUTCDate(value: unknown): Date | undefined {
+  const dayNumber = getDayNumber(value);
+  return dayNumber === undefined ? undefined : new Date(dayNumber * msPerDay);
+}
+
+/** Returns the calendar day of a date value formatted as `YYYY-MM-DD` */
+export function getDateString(value: unknown): string | undefined {
+  return getUTCDate(value)?.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a date typed or pasted in any format supported by `new Date()`, as a `YYYY-MM-DD` string.
+ * Returns `null` for an empty text, and `undefined` for an invalid date
+ */
+export function parseDate(text: string): string | null | undefined {
+  text = text.trim();
+  if (text === '') return null;
+  return getDateString(text);
+}
+
+/**
+ * Parses a number written in JavaScript syntax or in the number format of the locale, like `1,234.5`.
+ * Returns `null` for an empty text, and `undefined` for an invalid number
+ */
+export function parseNumber(text: string): number | null | undefined {
+  text = text.trim();
+  if (text === '') return null;
+
+  let value = Number(text);
+  if (Number.isNaN(value)) {
+    value = Number(
+      text.replaceAll(/\s/g, '').replaceAll(groupSeparator, '').replace(decimalSeparator, '.')
+    );
+  }
+
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** Returns the text of a number value in the number editor */
+export function getNumberInputValue(value: unknown): string {
+  if (typeof value === 'number') return numberInputFormat.format(value);
+  return value == null ? '' : String(value);
+}
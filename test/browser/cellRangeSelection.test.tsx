@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid } from '../../src';
+import type { CellRange, Column } from '../../src';
+import { getCellsAtRowIndex, validateCellPosition } from './utils';
+
+interface Row {
+  id: number;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'col1', name: 'Col1' },
+  { key: 'col2', name: 'Col2' },
+  { key: 'col3', name: 'Col3' },
+  { key: 'col4', name: 'Col4' }
+];
+
+const rows: readonly Row[] = Array.from({ length: 10 }, (_, id) => ({ id }));
+
+const rangeCells = page.getBySelector('.rdg-cell-range');
+
+const onSelectedCellRangeChangeSpy = vi.fn();
+
+function CellRangeSelectionTest() {
+  const [selectedCellRange, setSelectedCellRange] = useState<CellRange | null>(null);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      selectedCellRange={selectedCellRange}
+      onSelectedCellRangeChange={(range) => {
+        onSelectedCellRangeChangeSpy(range);
+        setSelectedCellRange(range);
+      }}
+    />
+  );
+}
+
+function setup() {
+  onSelectedCellRangeChangeSpy.mockClear();
+  return page.render(<CellRangeSelectionTest />);
+}
+
+test('should extend the range using shift+arrow keys', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(1).nth(1));
+  await userEvent.keyboard('{Shift>}{arrowdown}{arrowright}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 2,
+    endRowIdx: 2
+  });
+  await expect.element(rangeCells).toHaveLength(4);
+  // the active position does not move
+  await validateCellPosition(1, 2);
+
+  // shrink the range by moving the head back towards the anchor
+  await userEvent.keyboard('{Shift>}{arrowleft}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 1,
+    endRowIdx: 2
+  });
+  await expect.element(rangeCells).toHaveLength(2);
+
+  // extend the range past the anchor
+  await userEvent.keyboard('{Shift>}{arrowup}{arrowup}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 0,
+    endIdx: 1,
+    endRowIdx: 1
+  });
+});
+
+test('should extend the range using shift+home, end, page up and page down', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(1).nth(1));
+  await userEvent.keyboard('{Shift>}{End}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 3,
+    endRowIdx: 1
+  });
+  await userEvent.keyboard('{Shift>}{Home}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 0,
+    startRowIdx: 1,
+    endIdx: 1,
+    endRowIdx: 1
+  });
+
+  // ctrl+shift+end extends the range to the last cell
+  await userEvent.keyboard('{Control>}{Shift>}{End}{/Shift}{/Control}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 3,
+    endRowIdx: 9
+  });
+
+  await userEvent.keyboard('{Shift>}{PageUp}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 3,
+    endRowIdx: 1
+  });
+  await userEvent.keyboard('{Shift>}{PageUp}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 0,
+    endIdx: 3,
+    endRowIdx: 1
+  });
+  await userEvent.keyboard('{Shift>}{PageDown}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 1,
+    startRowIdx: 1,
+    endIdx: 3,
+    endRowIdx: 9
+  });
+
+  // ctrl+shift+home extends the range to the first cell
+  await userEvent.keyboard('{Control>}{Shift>}{Home}{/Shift}{/Control}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 0,
+    startRowIdx: 0,
+    endIdx: 1,
+    endRowIdx: 1
+  });
+  // the active position does not move
+  await validateCellPosition(1, 2);
+});
+
+test('should clear the range when the active position changes', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{/Shift}');
+  await expect.element(rangeCells).toHaveLength(2);
+  await userEvent.keyboard('{arrowright}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith(null);
+  await expect.element(rangeCells).not.toBeInTheDocument();
+});
+
+test('should report a range covering only the active cell as null', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowright}{arrowleft}{/Shift}');
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith(null);
+  await expect.element(rangeCells).not.toBeInTheDocument();
+});
+
+test('should extend the range using shift+click', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(3).nth(3));
+  await userEvent.click(getCellsAtRowIndex(1).nth(0), { modifiers: ['Shift'] });
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 0,
+    startRowIdx: 1,
+    endIdx: 3,
+    endRowIdx: 3
+  });
+  await expect.element(rangeCells).toHaveLength(12);
+  await validateCellPosition(3, 4);
+});
+
+test('should extend the range using mouse drag', async () => {
+  await setup();
+  await userEvent.dragAndDrop(getCellsAtRowIndex(0).nth(0), getCellsAtRowIndex(2).nth(1));
+  expect(onSelectedCellRangeChangeSpy).toHaveBeenLastCalledWith({
+    startIdx: 0,
+    startRowIdx: 0,
+    endIdx: 1,
+    endRowIdx: 2
+  });
+  await expect.element(rangeCells).toHaveLength(6);
+});
+
+test('should not select a range when onSelectedCellRangeChange is not set', async () => {
+  await page.render(<DataGrid columns={columns} rows={rows} />);
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{/Shift}');
+  await expect.element(rangeCells).not.toBeInTheDocument();
+  await validateCellPosition(0, 2);
+});
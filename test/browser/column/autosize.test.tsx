@@ -0,0 +1,124 @@
+import { createRef, useState } from 'react';
+import { page } from 'vitest/browser';
+
+import { DataGrid, RowDragColumn, useRowSelection } from '../../../src';
+import type { Column, ColumnWidths, DataGridHandle } from '../../../src';
+import { setup } from '../utils';
+
+const grid = page.getGrid();
+
+interface Row {
+  readonly width: number;
+}
+
+// cells have 8px of inline padding on both sides and a 1px border
+const columns: readonly Column<Row>[] = [
+  {
+    key: 'col1',
+    name: 'col1',
+    renderCell: ({ row }) => <div style={{ inlineSize: row.width }} />
+  },
+  {
+    key: 'col2',
+    name: 'a very very very very very very very long header',
+    width: 100,
+    renderCell: () => <div style={{ inlineSize: 100 }} />
+  }
+];
+
+const rows: readonly Row[] = Array.from({ length: 1000 }, (_, index) => ({
+  width: index === 900 ? 300 : 50
+}));
+
+test('autosizeColumns fits the columns to their content, including rows outside the viewport', async () => {
+  const ref = createRef<DataGridHandle>();
+  await setup({ ref, columns, rows });
+
+  ref.current!.autosizeColumns(['col1']);
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '317px 100px' });
+
+  // rows outside of the sample are not measured
+  ref.current!.autosizeColumns(['col1'], { sampleSize: 0 });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '67px 100px' });
+});
+
+test('autosizeColumns can ignore the header cells', async () => {
+  const ref = createRef<DataGridHandle>();
+  await setup({ ref, columns, rows });
+
+  ref.current!.autosizeColumns(undefined, { includeHeader: false });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '317px 117px' });
+
+  ref.current!.autosizeColumns(['col2']);
+  await expect.element(grid).not.toHaveStyle({ gridTemplateColumns: '317px 117px' });
+});
+
+test('autosizeColumns can skip resized columns', async () => {
+  const ref = createRef<DataGridHandle>();
+  const onColumnWidthsChange = vi.fn();
+
+  function Test() {
+    const [columnWidths, setColumnWidths] = useState(
+      (): ColumnWidths => new Map([['col1', { type: 'resized', width: 200 }]])
+    );
+
+    return (
+      <DataGrid
+        ref={ref}
+        columns={columns}
+        rows={rows}
+        columnWidths={columnWidths}
+        onColumnWidthsChange={(columnWidths) => {
+          onColumnWidthsChange(columnWidths);
+          setColumnWidths(columnWidths);
+        }}
+      />
+    );
+  }
+
+  await page.render(<Test />);
+  ref.current!.autosizeColumns(undefined, { includeHeader: false, skipResized: true });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '200px 117px' });
+  // autosized columns are resized
+  expect(onColumnWidthsChange.mock.lastCall![0].get('col2')).toStrictEqual({
+    type: 'resized',
+    width: 117
+  });
+});
+
+test('autosizeColumns renders the cells using the row hooks', async () => {
+  const ref = createRef<DataGridHandle>();
+
+  function SelectionCell() {
+    const { isRowSelected } = useRowSelection();
+    return <div style={{ inlineSize: 80 }}>{String(isRowSelected)}</div>;
+  }
+
+  await setup({
+    ref,
+    columns: [
+      RowDragColumn,
+      { key: 'selection', name: 'selection', width: 50, renderCell: () => <SelectionCell /> }
+    ],
+    rows
+  });
+
+  ref.current!.autosizeColumns(undefined, { includeHeader: false });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '35px 97px' });
+});
+
+test('autosizeOnMount fits the columns to the grid width', async () => {
+  await setup({
+    columns,
+    rows,
+    autosizeOnMount: { includeHeader: false, mode: 'gridWidth' },
+    style: { inlineSize: 868 }
+  });
+
+  // the content widths are scaled to the width of the grid
+  const { clientWidth } = grid.element();
+  const scale = clientWidth / (317 + 117);
+  await expect.element(grid).toHaveStyle({
+    gridTemplateColumns: `${Math.floor(317 * scale)}px ${Math.floor(117 * scale)}px`
+  });
+});
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid } from '../../../src';
+import type { ColumnOrColumnGroup } from '../../../src';
+
+const columns: readonly ColumnOrColumnGroup<never>[] = [
+  { key: 'name', name: 'Name' },
+  {
+    id: 'q1',
+    name: 'Q1',
+    collapsedColumns: ['q1Total'],
+    children: [
+      { key: 'jan', name: 'Jan' },
+      { key: 'feb', name: 'Feb' },
+      { key: 'q1Total', name: 'Q1 Total' }
+    ]
+  },
+  {
+    name: 'Q2',
+    children: [{ key: 'apr', name: 'Apr' }]
+  }
+];
+
+const onCollapsedColumnGroupsChange = vi.fn();
+
+function CollapsibleTest() {
+  const [collapsedColumnGroups, setCollapsedColumnGroups] = useState(
+    (): ReadonlySet<string> => new Set(['q1'])
+  );
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={[]}
+      collapsedColumnGroups={collapsedColumnGroups}
+      onCollapsedColumnGroupsChange={(collapsedColumnGroups) => {
+        onCollapsedColumnGroupsChange(collapsedColumnGroups);
+        setCollapsedColumnGroups(collapsedColumnGroups);
+      }}
+    />
+  );
+}
+
+test('collapsible column groups', async () => {
+  await page.render(<CollapsibleTest />);
+  const groupCell = page.getHeaderCell({ name: 'Q1', exact: true });
+
+  // only the collapsed columns of a collapsed group are displayed
+  await expect.element(groupCell).toHaveAttribute('aria-expanded', 'false');
+  await expect.element(groupCell).toHaveAttribute('aria-colspan', '1');
+  await expect.element(page.getHeaderCell({ name: 'Jan' })).not.toBeInTheDocument();
+  await expect.element(page.getHeaderCell({ name: 'Q1 Total' })).toBeInTheDocument();
+
+  // groups without collapsedColumns cannot be collapsed
+  await expect
+    .element(page.getHeaderCell({ name: 'Q2', exact: true }))
+    .not.toHaveAttribute('aria-expanded');
+
+  await userEvent.click(groupCell);
+  expect(onCollapsedColumnGroupsChange).toHaveBeenLastCalledWith(new Set());
+  await expect.element(groupCell).toHaveAttribute('aria-expanded', 'true');
+  await expect.element(groupCell).toHaveAttribute('aria-colspan', '3');
+  await expect.element(page.getHeaderCell({ name: 'Jan' })).toBeInTheDocument();
+
+  // the active group header cell is toggled with Enter and Space
+  await userEvent.keyboard('{Enter}');
+  await expect.element(groupCell).toHaveAttribute('aria-expanded', 'false');
+  await userEvent.keyboard(' ');
+  await expect.element(groupCell).toHaveAttribute('aria-expanded', 'true');
+  expect(onCollapsedColumnGroupsChange).toHaveBeenCalledTimes(3);
+});
+
+test('collapsed groups without visible collapsed columns display their first visible column', async () => {
+  await page.render(
+    <DataGrid
+      columns={columns}
+      rows={[]}
+      hiddenColumns={new Set(['jan', 'q1Total'])}
+      collapsedColumnGroups={new Set(['q1'])}
+    />
+  );
+
+  const groupCell = page.getHeaderCell({ name: 'Q1', exact: true });
+  await expect.element(groupCell).toHaveAttribute('aria-colspan', '1');
+  await expect.element(page.getHeaderCell({ name: 'Feb' })).toBeInTheDocument();
+});
+
+test('column groups are not collapsible without onCollapsedColumnGroupsChange', async () => {
+  await page.render(
+    <DataGrid columns={columns} rows={[]} collapsedColumnGroups={new Set(['q1'])} />
+  );
+
+  // the collapsed state is still applied
+  const groupCell = page.getHeaderCell({ name: 'Q1', exact: true });
+  await expect.element(groupCell).not.toHaveAttribute('aria-expanded');
+  await expect.element(groupCell).toHaveAttribute('aria-colspan', '1');
+
+  await userEvent.click(groupCell);
+  await userEvent.keyboard('{Enter}');
+  await expect.element(groupCell).toHaveAttribute('aria-colspan', '1');
+  await expect.element(page.getHeaderCell({ name: 'Jan' })).not.toBeInTheDocument();
+});
@@ -1,7 +1,7 @@
 import { page, userEvent } from 'vitest/browser';
 
-import type { Column } from '../../../src';
-import { setup } from '../utils';
+import type { Column, ColumnOrColumnGroup } from '../../../src';
+import { setup, validateCellPosition } from '../utils';
 
 const headerCells = page.getHeaderCell();
 
@@ -51,3 +51,133 @@ test('draggable columns', async () => {
   await userEvent.dragAndDrop(cell1, cell2);
   expect(onColumnsReorder).not.toHaveBeenCalled();
 });
+
+const groupedColumns: readonly ColumnOrColumnGroup<never>[] = [
+  {
+    key: 'col1',
+    name: 'col1',
+    draggable: true
+  },
+  {
+    name: 'group1',
+    draggable: true,
+    children: [
+      {
+        key: 'col2',
+        name: 'col2',
+        draggable: true
+      },
+      {
+        key: 'col3',
+        name: 'col3',
+        hidden: true
+      },
+      {
+        key: 'col4',
+        name: 'col4',
+        draggable: true
+      }
+    ]
+  },
+  {
+    key: 'col5',
+    name: 'col5',
+    draggable: true,
+    frozen: true
+  }
+];
+
+function getHeaderCell(name: string) {
+  return page.getHeaderCell({ name, exact: true });
+}
+
+test('onColumnOrderChange', async () => {
+  const onColumnsReorder = vi.fn();
+  const onColumnOrderChange = vi.fn();
+  await setup({ columns: groupedColumns, rows: [], onColumnsReorder, onColumnOrderChange });
+
+  // columns can be reordered inside a column group
+  await userEvent.dragAndDrop(getHeaderCell('col2'), getHeaderCell('col4'));
+  expect(onColumnsReorder).toHaveBeenCalledExactlyOnceWith('col2', 'col4');
+  expect(onColumnOrderChange).toHaveBeenCalledExactlyOnceWith([
+    'col1',
+    'col3',
+    'col4',
+    'col2',
+    'col5'
+  ]);
+  onColumnsReorder.mockClear();
+  onColumnOrderChange.mockClear();
+
+  // column groups are moved with all their columns, hidden columns included
+  await userEvent.dragAndDrop(getHeaderCell('group1'), getHeaderCell('col1'));
+  expect(onColumnsReorder).not.toHaveBeenCalled();
+  expect(onColumnOrderChange).toHaveBeenCalledExactlyOnceWith([
+    'col2',
+    'col3',
+    'col4',
+    'col1',
+    'col5'
+  ]);
+  onColumnOrderChange.mockClear();
+
+  // columns cannot be moved out of their column group
+  await userEvent.dragAndDrop(getHeaderCell('col4'), getHeaderCell('col1'));
+  expect(onColumnOrderChange).not.toHaveBeenCalled();
+
+  // columns cannot be moved across the frozen boundary
+  await userEvent.dragAndDrop(getHeaderCell('col5'), getHeaderCell('col1'));
+  expect(onColumnOrderChange).not.toHaveBeenCalled();
+});
+
+test('columnOrder', async () => {
+  await setup({ columns: groupedColumns, rows: [], columnOrder: ['col4', 'col1', 'col2'] });
+
+  // frozen columns are displayed first, and the column group is displayed at the position of its first column
+  await expect.element(getHeaderCell('col5')).toHaveAttribute('aria-colindex', '1');
+  await expect.element(getHeaderCell('group1')).toHaveAttribute('aria-colindex', '2');
+  await expect.element(getHeaderCell('col4')).toHaveAttribute('aria-colindex', '2');
+  await expect.element(getHeaderCell('col2')).toHaveAttribute('aria-colindex', '3');
+  await expect.element(getHeaderCell('col1')).toHaveAttribute('aria-colindex', '4');
+});
+
+test('move columns with the keyboard', async () => {
+  const onColumnsReorder = vi.fn();
+  const onColumnOrderChange = vi.fn();
+  await setup({ columns: groupedColumns, rows: [], onColumnsReorder, onColumnOrderChange });
+
+  await userEvent.click(getHeaderCell('col2'));
+  await userEvent.keyboard('{Control>}{Shift>}{ArrowRight}{/Shift}{/Control}');
+  expect(onColumnsReorder).toHaveBeenCalledExactlyOnceWith('col2', 'col4');
+  expect(onColumnOrderChange).toHaveBeenCalledExactlyOnceWith([
+    'col1',
+    'col3',
+    'col4',
+    'col2',
+    'col5'
+  ]);
+  // the moved column stays active
+  await validateCellPosition(3, 1);
+  await expect
+    .element(page.getBySelector('.rdg-live-region'))
+    .toHaveTextContent('col2 moved to column 4 of 4');
+  onColumnsReorder.mockClear();
+  onColumnOrderChange.mockClear();
+
+  await userEvent.click(getHeaderCell('group1'));
+  await userEvent.keyboard('{Control>}{Shift>}{ArrowLeft}{/Shift}{/Control}');
+  expect(onColumnsReorder).not.toHaveBeenCalled();
+  expect(onColumnOrderChange).toHaveBeenCalledExactlyOnceWith([
+    'col2',
+    'col3',
+    'col4',
+    'col1',
+    'col5'
+  ]);
+  onColumnOrderChange.mockClear();
+
+  // columns cannot be moved across the frozen boundary
+  await userEvent.click(getHeaderCell('col1'));
+  await userEvent.keyboard('{Control>}{Shift>}{ArrowLeft}{/Shift}{/Control}');
+  expect(onColumnOrderChange).not.toHaveBeenCalled();
+});
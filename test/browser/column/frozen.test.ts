@@ -1,8 +1,12 @@
-import { page } from 'vitest/browser';
+import { page, userEvent } from 'vitest/browser';
 
 import type { Column } from '../../../src';
-import { cellClassname, cellFrozenClassname } from '../../../src/style/cell';
-import { setup } from '../utils';
+import {
+  cellClassname,
+  cellFrozenClassname,
+  cellFrozenEndClassname
+} from '../../../src/style/cell';
+import { getCellsAtRowIndex, scrollGrid, setup, validateCellPosition } from '../utils';
 
 const headerCells = page.getHeaderCell();
 
@@ -43,3 +47,78 @@ test('frozen column have a specific class, and are stable-sorted before non-froz
   await expect.element(cell3).toHaveClass(cellClassname, { exact: true });
   await expect.element(cell4).toHaveClass(cellClassname, { exact: true });
 });
+
+test('columns frozen at the end are stable-sorted after non-frozen columns', async () => {
+  const columns: readonly Column<never>[] = [
+    {
+      key: 'col1',
+      name: 'col1',
+      frozen: 'end'
+    },
+    {
+      key: 'col2',
+      name: 'col2'
+    },
+    {
+      key: 'col3',
+      name: 'col3',
+      frozen: 'end'
+    },
+    {
+      key: 'col4',
+      name: 'col4',
+      frozen: 'start'
+    }
+  ];
+
+  await setup({ columns, rows: [] });
+
+  const [cell1, cell2, cell3, cell4] = headerCells.all();
+
+  await expect.element(cell1).toHaveTextContent('col4');
+  await expect.element(cell2).toHaveTextContent('col2');
+  await expect.element(cell3).toHaveTextContent('col1');
+  await expect.element(cell4).toHaveTextContent('col3');
+
+  await expect.element(cell1).toHaveClass(cellClassname, cellFrozenClassname, { exact: true });
+  await expect.element(cell2).toHaveClass(cellClassname, { exact: true });
+  await expect
+    .element(cell3)
+    .toHaveClass(cellClassname, cellFrozenClassname, cellFrozenEndClassname, { exact: true });
+  await expect
+    .element(cell4)
+    .toHaveClass(cellClassname, cellFrozenClassname, cellFrozenEndClassname, { exact: true });
+});
+
+test('columns frozen at the end are always rendered', async () => {
+  const columns: Column<number>[] = [];
+
+  for (let i = 0; i < 30; i++) {
+    const key = String(i);
+    columns.push({
+      key,
+      name: key,
+      width: 100,
+      frozen: i >= 28 ? 'end' : undefined
+    });
+  }
+
+  await setup({ columns, rows: [0, 1] });
+
+  await expect.element(page.getHeaderCell({ name: '28', exact: true })).toBeVisible();
+  await expect.element(page.getHeaderCell({ name: '29', exact: true })).toBeVisible();
+  await expect.element(page.getHeaderCell({ name: '27', exact: true })).not.toBeInTheDocument();
+
+  scrollGrid({ left: 1000 });
+  await expect.element(page.getHeaderCell({ name: '0', exact: true })).not.toBeInTheDocument();
+  await expect.element(page.getHeaderCell({ name: '29', exact: true })).toBeVisible();
+
+  // navigate from the last regular column to the columns frozen at the end
+  scrollGrid({ left: 0 });
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{End}');
+  await validateCellPosition(29, 1);
+  await userEvent.keyboard('{ArrowLeft}{ArrowLeft}');
+  await validateCellPosition(27, 1);
+  await expect.element(page.getActiveCell()).toBeVisible();
+});
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, renderTextEditor } from '../../../src';
+import type { Column } from '../../../src';
+import { getCellsAtRowIndex } from '../utils';
+
+interface Row {
+  readonly name: string;
+  readonly address: { readonly city: string; readonly country: string };
+}
+
+const columns: readonly Column<Row>[] = [
+  {
+    key: 'city',
+    name: 'City',
+    path: 'address.city',
+    renderEditCell: renderTextEditor
+  },
+  {
+    key: 'initial',
+    name: 'Initial',
+    sortable: true,
+    getValue: (row) => row.name.slice(0, 1),
+    setValue: (row, value) => ({ ...row, name: `${value as string}${row.name.slice(1)}` }),
+    renderEditCell: renderTextEditor
+  }
+];
+
+const initialRows: readonly Row[] = [
+  { name: 'Bob', address: { city: 'Paris', country: 'France' } },
+  { name: 'Alice', address: { city: 'Tokyo', country: 'Japan' } }
+];
+
+const onRowsChange = vi.fn();
+
+function ValueTest() {
+  const [rows, setRows] = useState(initialRows);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      enableInternalSorting
+      onRowsChange={(rows, data) => {
+        onRowsChange(rows, data);
+        setRows(rows);
+      }}
+    />
+  );
+}
+
+test('cell values are read from the path or with getValue', async () => {
+  await page.render(<ValueTest />);
+
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('Paris');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('B');
+
+  // rows are sorted by the value of getValue
+  await userEvent.click(page.getHeaderCell({ name: 'Initial' }));
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('A');
+});
+
+test('cell values are written to the path or with setValue', async () => {
+  await page.render(<ValueTest />);
+
+  await userEvent.dblClick(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Control>}a{/Control}Lyon{Enter}');
+  expect(onRowsChange).toHaveBeenLastCalledWith(
+    [{ name: 'Bob', address: { city: 'Lyon', country: 'France' } }, initialRows[1]],
+    expect.objectContaining({
+      changes: [
+        { rowIdx: 0, rowKey: undefined, columnKey: 'city', oldValue: 'Paris', newValue: 'Lyon' }
+      ]
+    })
+  );
+
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(1));
+  await userEvent.keyboard('{Control>}a{/Control}E{Enter}');
+  expect(onRowsChange.mock.lastCall![0][1]).toHaveProperty('name', 'Elice');
+});
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { ColumnChooser, DataGrid } from '../../../src';
+import type { ColumnOrColumnGroup, ColumnWidths } from '../../../src';
+import { setup, testCount } from '../utils';
+
+const headerCells = page.getHeaderCell();
+const headerRows = page.getHeaderRow();
+
+const columns: readonly ColumnOrColumnGroup<never>[] = [
+  { key: 'col1', name: 'col 1', width: 100 },
+  {
+    name: 'group 1',
+    children: [
+      { key: 'col2', name: 'col 2', width: 100, hidden: true },
+      { key: 'col3', name: 'col 3', width: 100 }
+    ]
+  },
+  { name: 'group 2', children: [{ key: 'col4', name: 'col 4', width: 100 }] }
+];
+
+function ColumnChooserTest() {
+  const [hiddenColumns, setHiddenColumns] = useState((): ReadonlySet<string> => new Set(['col2']));
+  const [columnWidths, setColumnWidths] = useState(
+    (): ColumnWidths => new Map([['col3', { type: 'resized', width: 120 }]])
+  );
+
+  return (
+    <>
+      <ColumnChooser
+        columns={columns}
+        hiddenColumns={hiddenColumns}
+        onHiddenColumnsChange={setHiddenColumns}
+      />
+      <DataGrid
+        columns={columns}
+        rows={[]}
+        hiddenColumns={hiddenColumns}
+        columnWidths={columnWidths}
+        onColumnWidthsChange={setColumnWidths}
+      />
+    </>
+  );
+}
+
+test('hidden columns are not rendered', async () => {
+  await setup({ columns, rows: [] });
+  await testCount(headerRows, 2);
+  await expect.element(page.getHeaderCell({ name: 'col 2' })).not.toBeInTheDocument();
+  await expect
+    .element(page.getHeaderCell({ name: 'group 1' }))
+    .toHaveAttribute('aria-colspan', '1');
+});
+
+test('hiddenColumns takes precedence over the hidden option', async () => {
+  await setup({ columns, rows: [], hiddenColumns: new Set(['col1', 'col4']) });
+  await expect.element(page.getHeaderCell({ name: 'col 1' })).not.toBeInTheDocument();
+  await expect.element(page.getHeaderCell({ name: 'col 2' })).toBeInTheDocument();
+  // groups without visible columns are not rendered
+  await expect.element(page.getHeaderCell({ name: 'group 2' })).not.toBeInTheDocument();
+  await expect
+    .element(page.getHeaderCell({ name: 'group 1' }))
+    .toHaveAttribute('aria-colspan', '2');
+});
+
+test('column chooser', async () => {
+  await page.render(<ColumnChooserTest />);
+  const checkbox1 = page.getByRole('checkbox', { name: 'col 1' });
+  const checkbox2 = page.getByRole('checkbox', { name: 'col 2' });
+  const checkbox3 = page.getByRole('checkbox', { name: 'col 3' });
+  const groupCheckbox = page.getByRole('checkbox', { name: 'group 1' });
+
+  await expect.element(checkbox1).toBeChecked();
+  await expect.element(checkbox2).not.toBeChecked();
+  await expect.element(groupCheckbox).toBePartiallyChecked();
+  await testCount(headerCells, 5);
+
+  // checking a group shows all its columns
+  await userEvent.click(groupCheckbox);
+  await expect.element(checkbox2).toBeChecked();
+  await expect.element(page.getHeaderCell({ name: 'col 2' })).toBeInTheDocument();
+  await expect
+    .element(page.getHeaderCell({ name: 'group 1' }))
+    .toHaveAttribute('aria-colspan', '2');
+
+  // hidden columns keep their width
+  await userEvent.click(checkbox3);
+  await expect.element(page.getHeaderCell({ name: 'col 3' })).not.toBeInTheDocument();
+  await userEvent.click(checkbox3);
+  await expect
+    .element(page.getGrid())
+    .toHaveStyle({ gridTemplateColumns: '100px 100px 120px 100px' });
+
+  await userEvent.click(page.getByRole('checkbox', { name: 'group 2' }));
+  await expect.element(page.getHeaderCell({ name: 'group 2' })).not.toBeInTheDocument();
+  await expect.element(page.getByRole('checkbox', { name: 'col 4' })).not.toBeChecked();
+
+  // groups are listed when one of their columns matches the search
+  await userEvent.fill(page.getByRole('searchbox', { name: 'Search columns' }), '3');
+  await expect.element(page.getByRole('checkbox')).toHaveLength(2);
+  await expect.element(groupCheckbox).toBeInTheDocument();
+  await expect.element(checkbox3).toBeInTheDocument();
+
+  // groups matching the search are listed with all their columns
+  await userEvent.fill(page.getByRole('searchbox', { name: 'Search columns' }), 'group 1');
+  await expect.element(page.getByRole('checkbox')).toHaveLength(3);
+});
@@ -90,6 +90,21 @@ test('should resize column using keboard', async () => {
   expect(onColumnResize).toHaveBeenCalledTimes(2);
 });
 
+test('should call onColumnWidthsChange and announce the width when resizing using keyboard', async () => {
+  const onColumnWidthsChange = vi.fn();
+  await setup<Row, unknown>({ columns, rows: [], onColumnWidthsChange });
+  await userEvent.click(page.getHeaderCell({ name: 'col2' }));
+
+  await userEvent.keyboard('{Control>}{Alt>}{ArrowRight}{/Alt}{/Control}');
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '100px 210px' });
+  expect(onColumnWidthsChange).toHaveBeenCalledExactlyOnceWith(
+    new Map([['col2', { type: 'resized', width: 210 }]])
+  );
+  await expect
+    .element(page.getBySelector('.rdg-live-region'))
+    .toHaveTextContent('col2 resized to 210 pixels');
+});
+
 test('should use the maxWidth if specified when resizing using keyboard', async () => {
   const onColumnResize = vi.fn();
   await setup<Row, unknown>({ columns, rows: [], onColumnResize });
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { createCurrencyColumnType, DataGrid, DataGridDefaultRenderersContext } from '../../../src';
+import type { Column, Renderers } from '../../../src';
+import { getCellsAtRowIndex } from '../utils';
+
+interface Row {
+  readonly quantity: number | null;
+  readonly price: number;
+  readonly date: string;
+  readonly available: boolean;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'quantity', name: 'Quantity', type: 'number', editable: true },
+  { key: 'price', name: 'Price', type: 'currency', editable: true },
+  { key: 'date', name: 'Date', type: 'date', sortable: true },
+  { key: 'available', name: 'Available', type: 'boolean', editable: true }
+];
+
+const initialRows: readonly Row[] = [
+  { quantity: 1234.5, price: 10, date: '2026-10-19', available: true },
+  { quantity: 2, price: 20, date: '2026-01-02', available: false }
+];
+
+const onRowsChange = vi.fn();
+
+const currencyRenderers: Renderers<Row, unknown> = {
+  columnTypes: {
+    currency: createCurrencyColumnType('EUR')
+  }
+};
+
+function TypesTest() {
+  const [rows, setRows] = useState(initialRows);
+
+  return (
+    <DataGridDefaultRenderersContext value={currencyRenderers}>
+      <DataGrid
+        columns={columns}
+        rows={rows}
+        enableInternalSorting
+        onRowsChange={(rows) => {
+          onRowsChange(rows);
+          setRows(rows);
+        }}
+      />
+    </DataGridDefaultRenderersContext>
+  );
+}
+
+test('column types format and align the cell values', async () => {
+  await page.render(<TypesTest />);
+  const cells = getCellsAtRowIndex(0);
+
+  await expect.element(cells.nth(0)).toHaveTextContent(new Intl.NumberFormat().format(1234.5));
+  await expect.element(cells.nth(0)).toHaveStyle({ textAlign: 'end' });
+  await expect
+    .element(cells.nth(1))
+    .toHaveTextContent(
+      new Intl.NumberFormat(undefined, { style: 'currency', currency: 'EUR' }).format(10)
+    );
+  await expect
+    .element(cells.nth(2))
+    .toHaveTextContent(new Intl.DateTimeFormat().format(new Date(2026, 9, 19)));
+  await expect.element(page.getByRole('checkbox', { name: 'Available' }).nth(0)).toBeChecked();
+
+  // dates are sorted by calendar day
+  await userEvent.click(page.getHeaderCell({ name: 'Date' }));
+  await expect
+    .element(getCellsAtRowIndex(0).nth(2))
+    .toHaveTextContent(new Intl.DateTimeFormat().format(new Date(2026, 0, 2)));
+});
+
+test('column types parse the edited values', async () => {
+  await page.render(<TypesTest />);
+
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(0));
+  await userEvent.keyboard('{Control>}a{/Control}42.5{Enter}');
+  expect(onRowsChange.mock.lastCall![0][1]).toHaveProperty('quantity', 42.5);
+
+  // invalid values do not update the row
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(0));
+  await userEvent.keyboard('{Control>}a{/Control}abc{Enter}');
+  expect(onRowsChange.mock.lastCall![0][1]).toHaveProperty('quantity', 42.5);
+
+  // currency symbols are ignored
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(1));
+  await userEvent.keyboard(
+    `{Control>}a{/Control}${new Intl.NumberFormat(undefined, { style: 'currency', currency: 'EUR' }).format(7)}{Enter}`
+  );
+  expect(onRowsChange.mock.lastCall![0][1]).toHaveProperty('price', 7);
+
+  // boolean cells of editable columns are toggled in place
+  await userEvent.click(page.getByRole('checkbox', { name: 'Available' }).nth(1));
+  expect(onRowsChange.mock.lastCall![0][1]).toHaveProperty('available', true);
+});
+
+test('column types can be registered with DataGridDefaultRenderersContext', async () => {
+  const renderers: Renderers<Row, unknown> = {
+    columnTypes: {
+      number: { formatValue: (value) => `#${value as number}` }
+    }
+  };
+
+  await page.render(
+    <DataGridDefaultRenderersContext value={renderers}>
+      <DataGrid columns={columns} rows={initialRows} />
+    </DataGridDefaultRenderersContext>
+  );
+
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('#1234.5');
+  // registered types replace the built-in type of the same name
+  await expect.element(getCellsAtRowIndex(0).nth(0)).not.toHaveStyle({ textAlign: 'end' });
+});
+
+test('hidden columns are sorted with the comparison of their type', async () => {
+  const renderers: Renderers<Row, unknown> = {
+    columnTypes: {
+      descending: { compareValues: (a, b) => (b as number) - (a as number) }
+    }
+  };
+
+  await page.render(
+    <DataGridDefaultRenderersContext value={renderers}>
+      <DataGrid
+        columns={[
+          ...columns,
+          {
+            key: 'hiddenPrice',
+            name: 'Hidden price',
+            type: 'descending',
+            hidden: true,
+            getValue: (row) => row.price
+          }
+        ]}
+        rows={initialRows}
+        sortColumns={[{ columnKey: 'hiddenPrice', direction: 'ASC' }]}
+        enableInternalSorting
+      />
+    </DataGridDefaultRenderersContext>
+  );
+
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('20');
+});
@@ -1,8 +1,8 @@
 import { useState } from 'react';
 import { page, userEvent } from 'vitest/browser';
 
-import { DataGrid } from '../../src';
-import type { CellPasteArgs, Column } from '../../src';
+import { DataGrid, renderTextEditor } from '../../src';
+import type { CellPasteArgs, CellRange, Column, DataGridProps } from '../../src';
 import { getCellsAtRowIndex, safeTab } from './utils';
 
 interface Row {
@@ -135,3 +135,224 @@ test('should not start editing when pressing ctrl+<input key>', async () => {
   await userEvent.keyboard('{Control>}b');
   await expect.element(page.getActiveCell()).not.toHaveClass('rdg-editor-container');
 });
+
+interface RangeRow {
+  id: number;
+  name: string;
+  price: number;
+}
+
+const rangeColumns: readonly Column<RangeRow>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name' },
+  {
+    key: 'price',
+    name: 'Price',
+    renderCell({ row }) {
+      return `$${row.price}`;
+    },
+    getClipboardText(row) {
+      return row.price.toFixed(2);
+    }
+  }
+];
+
+const rangeRows: readonly RangeRow[] = [
+  { id: 1, name: 'Apple', price: 1 },
+  { id: 2, name: 'Tab\tand "quotes"', price: 2.5 },
+  { id: 3, name: '<b>bold</b>', price: 3 }
+];
+
+const onCopySpy = vi.fn();
+
+function CopyRangeTest({ onCellCopy }: Pick<DataGridProps<RangeRow>, 'onCellCopy'>) {
+  const [selectedCellRange, setSelectedCellRange] = useState<CellRange | null>(null);
+
+  return (
+    <div
+      onCopy={(event) => {
+        onCopySpy(
+          event.clipboardData.getData('text/plain'),
+          event.clipboardData.getData('text/html')
+        );
+      }}
+    >
+      <DataGrid
+        columns={rangeColumns}
+        rows={rangeRows}
+        selectedCellRange={selectedCellRange}
+        onSelectedCellRangeChange={setSelectedCellRange}
+        onCellCopy={onCellCopy}
+      />
+    </div>
+  );
+}
+
+function setupCopyRange(onCellCopy?: DataGridProps<RangeRow>['onCellCopy']) {
+  onCopySpy.mockClear();
+  return page.render(<CopyRangeTest onCellCopy={onCellCopy} />);
+}
+
+test('should copy the active cell', async () => {
+  await setupCopyRange();
+  await userEvent.click(getCellsAtRowIndex(0).nth(2));
+  await userEvent.copy();
+  expect(onCopySpy).toHaveBeenCalledExactlyOnceWith(
+    '1.00',
+    '<table><tbody><tr><td>1.00</td></tr></tbody></table>'
+  );
+});
+
+test('should copy the selected cell range as TSV and HTML', async () => {
+  await setupCopyRange();
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{arrowdown}{arrowright}{arrowright}{/Shift}');
+  await userEvent.copy();
+  expect(onCopySpy).toHaveBeenCalledExactlyOnceWith(
+    '1\tApple\t1.00\n2\t"Tab\tand ""quotes"""\t2.50\n3\t<b>bold</b>\t3.00',
+    '<table><tbody>' +
+      '<tr><td>1</td><td>Apple</td><td>1.00</td></tr>' +
+      '<tr><td>2</td><td>Tab\tand &quot;quotes&quot;</td><td>2.50</td></tr>' +
+      '<tr><td>3</td><td>&lt;b&gt;bold&lt;/b&gt;</td><td>3.00</td></tr>' +
+      '</tbody></table>'
+  );
+});
+
+test('should not copy cells when the default behavior is prevented', async () => {
+  await setupCopyRange((_, event) => {
+    event.clipboardData.setData('text/plain', 'custom');
+    event.preventDefault();
+  });
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  await userEvent.copy();
+  expect(onCopySpy).toHaveBeenCalledExactlyOnceWith('custom', '');
+});
+
+const onRowsChangeSpy = vi.fn();
+
+const pasteColumns: readonly Column<RangeRow>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name', renderEditCell: renderTextEditor },
+  {
+    key: 'price',
+    name: 'Price',
+    renderEditCell: renderTextEditor,
+    editable: (row) => row.id !== 2,
+    setClipboardText(row, text) {
+      return { ...row, price: Number(text) };
+    }
+  }
+];
+
+function PasteRangeTest({
+  enableRangePaste = true,
+  createPastedRow
+}: Pick<DataGridProps<RangeRow>, 'enableRangePaste' | 'createPastedRow'>) {
+  const [rows, setRows] = useState(rangeRows);
+
+  return (
+    <DataGrid
+      columns={pasteColumns}
+      rows={rows}
+      onRowsChange={(rows, data) => {
+        onRowsChangeSpy(rows, data);
+        setRows(rows);
+      }}
+      enableRangePaste={enableRangePaste}
+      createPastedRow={createPastedRow}
+    />
+  );
+}
+
+function setupPasteRange(createPastedRow?: DataGridProps<RangeRow>['createPastedRow']) {
+  onRowsChangeSpy.mockClear();
+  return page.render(<PasteRangeTest createPastedRow={createPastedRow} />);
+}
+
+function paste(format: string, data: string) {
+  const clipboardData = new DataTransfer();
+  clipboardData.setData(format, data);
+  document.activeElement!.dispatchEvent(
+    new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true })
+  );
+}
+
+test('should paste tab separated values starting at the active cell', async () => {
+  await setupPasteRange();
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  paste('text/plain', 'Banana\t4\r\n"Line\nbreak"\t5\r\nCherry\t6\r\nIgnored\t7\r\n');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    [
+      { id: 1, name: 'Banana', price: 4 },
+      // the price of the second row is not editable
+      { id: 2, name: 'Line\nbreak', price: 2.5 },
+      { id: 3, name: 'Cherry', price: 6 }
+    ],
+    {
+      indexes: [0, 1, 2],
+      column: expect.objectContaining({ key: 'name' }),
+      source: 'paste',
+      changes: [
+        { rowIdx: 0, rowKey: undefined, columnKey: 'name', oldValue: 'Apple', newValue: 'Banana' },
+        { rowIdx: 0, rowKey: undefined, columnKey: 'price', oldValue: 1, newValue: 4 },
+        {
+          rowIdx: 1,
+          rowKey: undefined,
+          columnKey: 'name',
+          oldValue: 'Tab\tand "quotes"',
+          newValue: 'Line\nbreak'
+        },
+        {
+          rowIdx: 2,
+          rowKey: undefined,
+          columnKey: 'name',
+          oldValue: '<b>bold</b>',
+          newValue: 'Cherry'
+        },
+        { rowIdx: 2, rowKey: undefined, columnKey: 'price', oldValue: 3, newValue: 6 }
+      ]
+    }
+  );
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Cherry');
+});
+
+test('should paste an HTML table', async () => {
+  await setupPasteRange();
+  await userEvent.click(getCellsAtRowIndex(1).nth(1));
+  paste(
+    'text/html',
+    '<meta charset="utf-8"><table><tbody><tr><td>Apricot</td><td>9</td></tr></tbody></table>'
+  );
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    [rangeRows[0], { id: 2, name: 'Apricot', price: 2.5 }, rangeRows[2]],
+    expect.objectContaining({ indexes: [1], source: 'paste' })
+  );
+});
+
+test('should append rows using createPastedRow', async () => {
+  await setupPasteRange(() => ({ id: 4, name: '', price: 0 }));
+  await userEvent.click(getCellsAtRowIndex(2).nth(2));
+  paste('text/plain', '7\n8\t9');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    [
+      rangeRows[0],
+      rangeRows[1],
+      { id: 3, name: '<b>bold</b>', price: 7 },
+      { id: 4, name: '', price: 8 }
+    ],
+    expect.objectContaining({
+      indexes: [2, 3],
+      column: expect.objectContaining({ key: 'price' }),
+      source: 'paste'
+    })
+  );
+  await expect.element(page.getRow()).toHaveLength(4);
+});
+
+test('should not paste the clipboard content if enableRangePaste is not set', async () => {
+  onRowsChangeSpy.mockClear();
+  await page.render(<PasteRangeTest enableRangePaste={false} />);
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  paste('text/plain', 'Banana\t4');
+  expect(onRowsChangeSpy).not.toHaveBeenCalled();
+});
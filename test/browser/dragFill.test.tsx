@@ -1,8 +1,8 @@
 import { useState } from 'react';
 import { commands, page, userEvent } from 'vitest/browser';
 
-import { DataGrid } from '../../src';
-import type { Column, FillEvent } from '../../src';
+import { DataGrid, DataGridDefaultRenderersContext, renderAnnouncement } from '../../src';
+import type { Announcement, CellRange, Column, FillEvent } from '../../src';
 import { getCellsAtRowIndex } from './utils';
 
 const dragHandle = page.getDragHandle();
@@ -99,3 +99,245 @@ test('should focus the cell when drag handle is clicked', async () => {
   await userEvent.click(dragHandle);
   await expect.element(cell).toHaveFocus();
 });
+
+interface SeriesRow {
+  a: string;
+  b: string;
+  c: string;
+  d: string;
+}
+
+const seriesColumns: readonly Column<SeriesRow>[] = ['a', 'b', 'c', 'd'].map((key) => ({
+  key,
+  name: key,
+  renderEditCell() {
+    return null;
+  }
+}));
+
+const seriesRows: readonly SeriesRow[] = [
+  { a: 'Item 1', b: 'b0', c: 'c0', d: 'd0' },
+  { a: 'Item 2', b: 'b1', c: 'c1', d: 'd1' },
+  { a: 'a2', b: 'b2', c: 'c2', d: 'd2' },
+  { a: 'a3', b: 'b3', c: 'c3', d: 'd3' }
+];
+
+const onFillSpy = vi.fn(({ columnKey, targetRow, value }: FillEvent<SeriesRow>) => ({
+  ...targetRow,
+  [columnKey]: value
+}));
+
+function FillSeriesTest({ enableFillSeries }: { enableFillSeries: boolean }) {
+  const [rows, setRows] = useState(seriesRows);
+  const [selectedCellRange, setSelectedCellRange] = useState<CellRange | null>(null);
+
+  return (
+    <DataGrid
+      columns={seriesColumns}
+      rows={rows}
+      onRowsChange={setRows}
+      onFill={onFillSpy}
+      selectedCellRange={selectedCellRange}
+      onSelectedCellRangeChange={setSelectedCellRange}
+      enableFillSeries={enableFillSeries}
+    />
+  );
+}
+
+function setupFillSeries(enableFillSeries = true) {
+  onFillSpy.mockClear();
+  return page.render(<FillSeriesTest enableFillSeries={enableFillSeries} />);
+}
+
+test('should fill horizontally', async () => {
+  await setupFillSeries();
+  await commands.dragFill('b0', 'd0');
+  await expect.element(getCellsAtRowIndex(0).nth(2)).toHaveTextContent('b0');
+  await expect.element(getCellsAtRowIndex(0).nth(3)).toHaveTextContent('b0');
+  await expect.element(getCellsAtRowIndex(1).nth(2)).toHaveTextContent('c1');
+  expect(onFillSpy).toHaveBeenLastCalledWith({
+    columnKey: 'd',
+    sourceColumnKey: 'b',
+    sourceRow: seriesRows[0],
+    targetRow: { ...seriesRows[0], c: 'b0' },
+    value: 'b0',
+    sourceRange: { startIdx: 1, startRowIdx: 0, endIdx: 1, endRowIdx: 0 },
+    targetRange: { startIdx: 2, startRowIdx: 0, endIdx: 3, endRowIdx: 0 },
+    direction: 'end'
+  });
+});
+
+test('should fill a series from the selected cell range', async () => {
+  await setupFillSeries();
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{arrowright}{/Shift}');
+  await commands.dragFill('Item 1', 'a3');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('Item 3');
+  await expect.element(getCellsAtRowIndex(3).nth(0)).toHaveTextContent('Item 4');
+  // values that do not form a series are repeated
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('b0');
+  await expect.element(getCellsAtRowIndex(3).nth(1)).toHaveTextContent('b1');
+  expect(onFillSpy).toHaveBeenLastCalledWith(
+    expect.objectContaining({
+      sourceRange: { startIdx: 0, startRowIdx: 0, endIdx: 1, endRowIdx: 1 },
+      targetRange: { startIdx: 0, startRowIdx: 2, endIdx: 1, endRowIdx: 3 },
+      direction: 'down'
+    })
+  );
+});
+
+test('should repeat the source values if enableFillSeries is not set', async () => {
+  await setupFillSeries(false);
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{/Shift}');
+  await commands.dragFill('Item 1', 'a3');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('Item 1');
+  await expect.element(getCellsAtRowIndex(3).nth(0)).toHaveTextContent('Item 2');
+});
+
+interface TextRow {
+  text: string;
+}
+
+const textColumns: readonly Column<TextRow>[] = [{ key: 'text', name: 'Text' }];
+
+function TextFillTest({ initialValues }: { initialValues: readonly string[] }) {
+  const [rows, setRows] = useState(() => initialValues.map((text): TextRow => ({ text })));
+
+  return (
+    <DataGrid
+      columns={textColumns}
+      rows={rows}
+      onRowsChange={setRows}
+      onFill={({ columnKey, targetRow, value }) => ({ ...targetRow, [columnKey]: value })}
+      enableFillSeries
+    />
+  );
+}
+
+test('should fill date strings by calendar day', async () => {
+  await page.render(<TextFillTest initialValues={['2024-01-30', 'r1', 'r2', 'r3']} />);
+  await commands.dragFill('2024-01-30', 'r3');
+  await expect.element(getCellsAtRowIndex(1).nth(0)).toHaveTextContent('2024-01-31');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('2024-02-01');
+  await expect.element(getCellsAtRowIndex(3).nth(0)).toHaveTextContent('2024-02-02');
+});
+
+test('should stop descending text series at 0', async () => {
+  await page.render(<TextFillTest initialValues={['r0', 'r1', 'r2', 'Item 1']} />);
+  await commands.dragFill('Item 1', 'r0');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('Item 0');
+  await expect.element(getCellsAtRowIndex(1).nth(0)).toHaveTextContent('Item 0');
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('Item 0');
+});
+
+const liveRegion = page.getBySelector('.rdg-live-region');
+
+test('should fill down using Ctrl+D', async () => {
+  await setupFillSeries(false);
+  // fill the active cell from the row above
+  await userEvent.click(getCellsAtRowIndex(1).nth(1));
+  await userEvent.keyboard('{Control>}d{/Control}');
+  await expect.element(getCellsAtRowIndex(1).nth(1)).toHaveTextContent('b0');
+  await expect.element(liveRegion).toHaveTextContent('Filled 1 cell');
+
+  // fill the selected range from its first row
+  await userEvent.click(getCellsAtRowIndex(1).nth(2));
+  await userEvent.keyboard('{Shift>}{arrowdown}{arrowdown}{arrowright}{/Shift}');
+  await userEvent.keyboard('{Control>}d{/Control}');
+  await expect.element(getCellsAtRowIndex(2).nth(2)).toHaveTextContent('c1');
+  await expect.element(getCellsAtRowIndex(3).nth(3)).toHaveTextContent('d1');
+  expect(onFillSpy).toHaveBeenLastCalledWith(
+    expect.objectContaining({
+      sourceRange: { startIdx: 2, startRowIdx: 1, endIdx: 3, endRowIdx: 1 },
+      targetRange: { startIdx: 2, startRowIdx: 2, endIdx: 3, endRowIdx: 3 },
+      direction: 'down'
+    })
+  );
+  await expect.element(liveRegion).toHaveTextContent('Filled 4 cells');
+});
+
+test('should fill right using Ctrl+R', async () => {
+  await setupFillSeries(false);
+  await userEvent.click(getCellsAtRowIndex(2).nth(1));
+  await userEvent.keyboard('{Control>}r{/Control}');
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('a2');
+  expect(onFillSpy).toHaveBeenLastCalledWith(
+    expect.objectContaining({
+      sourceColumnKey: 'a',
+      columnKey: 'b',
+      direction: 'end'
+    })
+  );
+});
+
+test('should not fill down the first row using Ctrl+D', async () => {
+  await setupFillSeries(false);
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  await userEvent.keyboard('{Control>}d{/Control}');
+  expect(onFillSpy).not.toHaveBeenCalled();
+});
+
+test('should extend the fill target using Alt+Shift+Arrow keys', async () => {
+  await setupFillSeries();
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard(
+    '{Alt>}{Shift>}{arrowdown}{arrowdown}{arrowdown}{arrowup}{/Shift}{/Alt}'
+  );
+  await expect
+    .element(liveRegion)
+    .toHaveTextContent('Fill down 2 rows. Press Enter to fill or Escape to cancel');
+  expect(onFillSpy).not.toHaveBeenCalled();
+
+  await userEvent.keyboard('{enter}');
+  await expect.element(getCellsAtRowIndex(1).nth(0)).toHaveTextContent('Item 2');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('Item 3');
+  await expect.element(getCellsAtRowIndex(3).nth(0)).toHaveTextContent('a3');
+  expect(onFillSpy).toHaveBeenLastCalledWith(
+    expect.objectContaining({
+      targetRange: { startIdx: 0, startRowIdx: 1, endIdx: 0, endRowIdx: 2 },
+      direction: 'down'
+    })
+  );
+  await expect.element(liveRegion).toHaveTextContent('Filled 2 cells');
+});
+
+test('should cancel the fill target using Escape', async () => {
+  await setupFillSeries();
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  await userEvent.keyboard('{Alt>}{Shift>}{arrowright}{/Shift}{/Alt}');
+  await expect
+    .element(liveRegion)
+    .toHaveTextContent('Fill right 1 column. Press Enter to fill or Escape to cancel');
+  await userEvent.keyboard('{escape}');
+  await expect.element(liveRegion).toHaveTextContent('Fill cancelled');
+  await userEvent.keyboard('{enter}');
+  expect(onFillSpy).not.toHaveBeenCalled();
+  await expect.element(getCellsAtRowIndex(0).nth(2)).toHaveTextContent('c0');
+});
+
+test('should not announce when no cells are filled', async () => {
+  await setup();
+  await commands.dragFill('a1', 'a2');
+  await expect.element(liveRegion).toHaveTextContent('Filled 1 cell');
+  // the last row is readonly
+  await commands.dragFill('a3', 'a4');
+  await expect.element(liveRegion).toBeEmptyDOMElement();
+});
+
+function renderFrenchAnnouncement(announcement: Announcement<Row>) {
+  if (announcement.type === 'fill') {
+    return `${announcement.cellsCount} cellule(s) remplie(s)`;
+  }
+  return renderAnnouncement(announcement);
+}
+
+test('should render the announcements with renderAnnouncement', async () => {
+  await page.render(
+    <DataGridDefaultRenderersContext value={{ renderAnnouncement: renderFrenchAnnouncement }}>
+      <DragFillTest />
+    </DataGridDefaultRenderersContext>
+  );
+  await commands.dragFill('a1', 'a3');
+  await expect.element(liveRegion).toHaveTextContent('2 cellule(s) remplie(s)');
+});
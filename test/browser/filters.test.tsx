@@ -0,0 +1,249 @@
+import { useMemo, useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, filterRows } from '../../src';
+import type { Column, DataGridProps, Filters } from '../../src';
+import { testRowCount } from './utils';
+
+interface Row {
+  id: number;
+  name: string | null;
+  price: number | null;
+  date: string | Date | null;
+  status: string;
+}
+
+const defaultColumns: readonly Column<Row>[] = [
+  { key: 'name', name: 'Name', filter: { type: 'text' } },
+  { key: 'price', name: 'Price', filter: { type: 'number' } },
+  { key: 'date', name: 'Date', filter: { type: 'date' } },
+  {
+    key: 'status',
+    name: 'Status',
+    filter: {
+      type: 'set',
+      options: [
+        { label: 'Open', value: 'open' },
+        { label: 'Closed', value: 'closed' }
+      ]
+    }
+  },
+  { key: 'id', name: 'ID' }
+];
+
+const rows: readonly Row[] = [
+  { id: 0, name: 'Apple', price: 5, date: '2024-01-05', status: 'open' },
+  { id: 1, name: 'Banana', price: 12, date: new Date(2024, 1, 10, 23, 30), status: 'closed' },
+  { id: 2, name: null, price: null, date: null, status: 'open' }
+];
+
+function getIds(filters: Filters) {
+  return filterRows(rows, filters, defaultColumns).map((row) => row.id);
+}
+
+const onFiltersChangeSpy = vi.fn();
+
+const facetColumns: readonly Column<Row>[] = [
+  { key: 'name', name: 'Name', filter: { type: 'facet' } },
+  {
+    key: 'status',
+    name: 'Status',
+    filter: {
+      type: 'facet',
+      getValue: (row) => row.status.toUpperCase(),
+      formatValue: (value) => `Status ${value as string}`
+    }
+  }
+];
+
+function FiltersTest({
+  columns = defaultColumns,
+  unfilteredRows
+}: Partial<Pick<DataGridProps<Row>, 'columns' | 'unfilteredRows'>>) {
+  const [filters, setFilters] = useState<Filters>(() => new Map());
+  const filteredRows = useMemo(() => filterRows(rows, filters, columns), [columns, filters]);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={filteredRows}
+      unfilteredRows={unfilteredRows}
+      filters={filters}
+      onFiltersChange={(filters) => {
+        onFiltersChangeSpy(filters);
+        setFilters(filters);
+      }}
+      enableFilterRow
+    />
+  );
+}
+
+function setup(props: React.ComponentProps<typeof FiltersTest> = {}) {
+  onFiltersChangeSpy.mockClear();
+  return page.render(<FiltersTest {...props} />);
+}
+
+const filterCells = page.getBySelector('.rdg-filter-row').getCell();
+const activeCell = page.getActiveCell();
+
+test('filterRows', () => {
+  expect(getIds(new Map())).toStrictEqual([0, 1, 2]);
+  expect(getIds(new Map([['name', { type: 'text', text: 'AN' }]]))).toStrictEqual([1]);
+  expect(getIds(new Map([['name', { type: 'text', text: '' }]]))).toStrictEqual([0, 1, 2]);
+  expect(getIds(new Map([['price', { type: 'number', min: 5, max: 10 }]]))).toStrictEqual([0]);
+  expect(getIds(new Map([['price', { type: 'number', min: 6 }]]))).toStrictEqual([1]);
+  // the time of the day is ignored
+  expect(getIds(new Map([['date', { type: 'date', from: '2024-02-10' }]]))).toStrictEqual([1]);
+  expect(getIds(new Map([['date', { type: 'date', to: '2024-01-05' }]]))).toStrictEqual([0]);
+  expect(getIds(new Map([['status', { type: 'set', values: ['open'] }]]))).toStrictEqual([0, 2]);
+  // a set filter without values matches no rows
+  expect(getIds(new Map([['status', { type: 'set', values: [] }]]))).toStrictEqual([]);
+  // filters for unknown columns are ignored
+  expect(getIds(new Map([['unknown', { type: 'text', text: 'x' }]]))).toStrictEqual([0, 1, 2]);
+  expect(
+    getIds(
+      new Map([
+        ['status', { type: 'set', values: ['open'] }],
+        ['name', { type: 'text', text: 'p' }]
+      ])
+    )
+  ).toStrictEqual([0]);
+});
+
+test('should not render the filter row by default', async () => {
+  await page.render(<DataGrid columns={defaultColumns} rows={rows} />);
+  await expect.element(page.getBySelector('.rdg-filter-row')).not.toBeInTheDocument();
+  await expect.element(page.getGrid()).toHaveAttribute('aria-rowcount', String(rows.length + 1));
+});
+
+test('should filter the rows using the filter inputs', async () => {
+  await setup();
+  await testRowCount(3);
+  await expect.element(page.getGrid()).toHaveAttribute('aria-rowcount', '5');
+  await expect.element(filterCells).toHaveLength(5);
+  await expect.element(filterCells.nth(4)).toBeEmptyDOMElement();
+
+  await userEvent.fill(page.getByRole('searchbox', { name: 'Filter Name' }), 'ban');
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(
+    new Map([['name', { type: 'text', text: 'ban' }]])
+  );
+  await testRowCount(1);
+
+  // empty filter values are removed
+  await userEvent.clear(page.getByRole('searchbox', { name: 'Filter Name' }));
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(new Map());
+  await testRowCount(3);
+
+  await userEvent.fill(page.getByRole('spinbutton', { name: 'Price minimum' }), '10');
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(
+    new Map([['price', { type: 'number', min: 10, max: undefined }]])
+  );
+  await testRowCount(1);
+  await userEvent.clear(page.getByRole('spinbutton', { name: 'Price minimum' }));
+
+  const statusFilter = page.getByRole('combobox', { name: 'Filter Status' });
+  await userEvent.selectOptions(statusFilter, 'Open');
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(
+    new Map([['status', { type: 'set', values: ['open'] }]])
+  );
+  await testRowCount(2);
+  await userEvent.selectOptions(statusFilter, 'All');
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(new Map());
+  await testRowCount(3);
+});
+
+test('should navigate to the filter row using the keyboard', async () => {
+  await setup();
+  await userEvent.click(page.getHeaderCell({ name: 'Name' }));
+  await userEvent.keyboard('{arrowdown}');
+  await expect.element(activeCell).toHaveAttribute('aria-colindex', '1');
+  await expect.element(filterCells.nth(0)).toHaveFocus();
+
+  await userEvent.keyboard('{arrowright}');
+  await expect.element(filterCells.nth(1)).toHaveFocus();
+
+  await userEvent.keyboard('{arrowdown}');
+  await expect.element(page.getRow().nth(0).getCell().nth(1)).toHaveFocus();
+
+  await userEvent.keyboard('{arrowup}{arrowup}');
+  await expect.element(page.getHeaderCell({ name: 'Price' })).toHaveFocus();
+});
+
+test('should focus the filter input using Enter and return to the cell using Escape', async () => {
+  await setup();
+  await userEvent.click(page.getHeaderCell({ name: 'Name' }));
+  await userEvent.keyboard('{arrowdown}{Enter}');
+  const input = page.getByRole('searchbox', { name: 'Filter Name' });
+  await expect.element(input).toHaveFocus();
+
+  // arrow keys are handled by the input
+  await userEvent.keyboard('app{arrowleft}{arrowright}');
+  await expect.element(input).toHaveFocus();
+  await testRowCount(1);
+
+  await userEvent.keyboard('{Escape}');
+  await expect.element(filterCells.nth(0)).toHaveFocus();
+  await userEvent.keyboard('{arrowright}');
+  await expect.element(filterCells.nth(1)).toHaveFocus();
+
+  // Tab moves between the inputs of the cell
+  await userEvent.keyboard('{Enter}');
+  await expect.element(page.getByRole('spinbutton', { name: 'Price minimum' })).toHaveFocus();
+  await userEvent.tab();
+  await expect.element(page.getByRole('spinbutton', { name: 'Price maximum' })).toHaveFocus();
+  await userEvent.keyboard('{Escape}');
+  await expect.element(filterCells.nth(1)).toHaveFocus();
+});
+
+test('facet filter', async () => {
+  await setup({ columns: facetColumns, unfilteredRows: rows });
+  const filterButton = page.getByRole('button', { name: 'Filter Status' });
+  await expect.element(filterButton).toHaveTextContent('All');
+  await userEvent.click(filterButton);
+  const dialog = page.getByRole('dialog', { name: 'Filter Status' });
+  await expect.element(dialog).toBeVisible();
+  await expect.element(page.getByRole('searchbox', { name: 'Search values' })).toHaveFocus();
+
+  // the values are sorted and counted using the value accessor
+  const options = dialog.getBySelector('.rdg-facet-option');
+  await expect.element(options).toHaveLength(3);
+  await expect.element(options.nth(0)).toHaveTextContent('Select all');
+  await expect.element(options.nth(1)).toHaveTextContent('Status CLOSED1');
+  await expect.element(options.nth(2)).toHaveTextContent('Status OPEN2');
+
+  await userEvent.click(dialog.getByRole('checkbox', { name: /^Status OPEN/ }));
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(
+    new Map([['status', { type: 'set', values: ['CLOSED'] }]])
+  );
+  await testRowCount(1);
+  await expect.element(filterButton).toHaveTextContent('1 selected');
+  // deselected values are still listed
+  await expect.element(options).toHaveLength(3);
+  await expect.element(dialog.getByRole('checkbox', { name: 'Select all' })).toBePartiallyChecked();
+
+  // selecting all the values removes the filter
+  await userEvent.click(dialog.getByRole('checkbox', { name: 'Select all' }));
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(new Map());
+  await testRowCount(3);
+
+  // only the values matching the search are deselected
+  await userEvent.fill(page.getByRole('searchbox', { name: 'Search values' }), 'clo');
+  await expect.element(options).toHaveLength(2);
+  await userEvent.click(dialog.getByRole('checkbox', { name: 'Select all search results' }));
+  expect(onFiltersChangeSpy).toHaveBeenLastCalledWith(
+    new Map([['status', { type: 'set', values: ['OPEN'] }]])
+  );
+  await testRowCount(2);
+
+  await userEvent.keyboard('{Escape}');
+  await expect.element(dialog).not.toBeVisible();
+  await expect.element(filterButton).toHaveFocus();
+
+  // the values are counted in the rows matching the filters of the other columns
+  await userEvent.click(page.getByRole('button', { name: 'Filter Name' }));
+  const nameDialog = page.getByRole('dialog', { name: 'Filter Name' });
+  await expect.element(nameDialog.getBySelector('.rdg-facet-option')).toHaveLength(3);
+  await expect.element(nameDialog).toHaveTextContent('Apple1');
+  await expect.element(nameDialog).toHaveTextContent('(Blanks)1');
+  await expect.element(nameDialog).not.toHaveTextContent('Banana');
+});
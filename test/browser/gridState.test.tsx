@@ -0,0 +1,121 @@
+import { useLayoutEffect } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, useGridState } from '../../src';
+import type { Column, GridState } from '../../src';
+
+const grid = page.getGrid();
+
+const columns: readonly Column<never>[] = [
+  { key: 'colA', name: 'colA', width: 100, sortable: true },
+  { key: 'colB', name: 'colB', width: 100, resizable: true },
+  { key: 'colC', name: 'colC', width: 100 },
+  { key: 'colD', name: 'colD', width: 100, hidden: true }
+];
+
+let getState: () => GridState;
+let setState: (state: unknown) => void;
+
+function TestGrid({ initialState }: { initialState?: unknown }) {
+  const gridState = useGridState({ columns, initialState });
+
+  useLayoutEffect(() => {
+    getState = gridState.getState;
+    setState = gridState.setState;
+  });
+
+  return <DataGrid {...gridState.gridProps} columns={columns} rows={[]} />;
+}
+
+const savedState: GridState = {
+  version: 1,
+  columnOrder: ['colC', 'colA', 'colB', 'removed'],
+  columnWidths: { colB: 150, removed: 200 },
+  hiddenColumns: ['colA', 'removed'],
+  sortColumns: [
+    { columnKey: 'removed', direction: 'ASC' },
+    { columnKey: 'colA', direction: 'DESC' }
+  ],
+  filters: { colB: { type: 'text', text: 'b' }, removed: { type: 'text', text: 'c' } },
+  expandedGroupIds: [],
+  scrollTop: 0,
+  scrollLeft: 0
+};
+
+test('restores the initial state, ignoring the columns that no longer exist', async () => {
+  await page.render(<TestGrid initialState={JSON.stringify(savedState)} />);
+
+  // colD was added after the state was saved so its hidden option is used
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '100px 150px' });
+  await expect.element(page.getHeaderCell().nth(0)).toHaveTextContent('colC');
+
+  expect(getState()).toStrictEqual({
+    ...savedState,
+    columnOrder: ['colC', 'colA', 'colB', 'colD'],
+    columnWidths: { colB: 150 },
+    hiddenColumns: ['colA', 'colD'],
+    sortColumns: [{ columnKey: 'colA', direction: 'DESC' }],
+    filters: { colB: { type: 'text', text: 'b' } }
+  });
+});
+
+test('getState and setState', async () => {
+  await page.render(<TestGrid />);
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '100px 100px 100px' });
+
+  await userEvent.click(page.getHeaderCell({ name: 'colA' }));
+  const state = getState();
+  expect(state).toStrictEqual({
+    version: 1,
+    columnOrder: ['colA', 'colB', 'colC', 'colD'],
+    columnWidths: {},
+    hiddenColumns: ['colD'],
+    sortColumns: [{ columnKey: 'colA', direction: 'ASC' }],
+    filters: {},
+    expandedGroupIds: [],
+    scrollTop: 0,
+    scrollLeft: 0
+  });
+
+  setState({ ...state, hiddenColumns: [], sortColumns: 'invalid' });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '100px 100px 100px 100px' });
+  await expect.element(page.getHeaderCell({ name: 'colA' })).not.toHaveAttribute('aria-sort');
+
+  // states saved with another version are discarded
+  setState({ ...state, version: 0 });
+  await expect.element(grid).toHaveStyle({ gridTemplateColumns: '100px 100px 100px' });
+});
+
+test('invalid filter values are discarded', async () => {
+  await page.render(
+    <TestGrid
+      initialState={{
+        ...savedState,
+        filters: {
+          colA: { type: 'number', min: 1, max: '5' },
+          colB: { type: 'text' },
+          colC: { type: 'set', values: [1, 2] },
+          colD: { type: 'unknown' }
+        }
+      }}
+    />
+  );
+
+  expect(getState().filters).toStrictEqual({ colC: { type: 'set', values: [1, 2] } });
+
+  setState({
+    ...savedState,
+    filters: {
+      colA: { type: 'number', max: 5 },
+      colB: { type: 'date', from: '2024-01-01', to: 1 },
+      colC: { type: 'set', values: 'a' },
+      colD: { type: 'date', to: '2024-12-31' }
+    }
+  });
+  await expect
+    .poll(() => getState().filters)
+    .toStrictEqual({
+      colA: { type: 'number', max: 5 },
+      colD: { type: 'date', to: '2024-12-31' }
+    });
+});
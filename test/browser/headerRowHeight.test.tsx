@@ -0,0 +1,37 @@
+import { page } from 'vitest/browser';
+
+import type { ColumnOrColumnGroup } from '../../src';
+import { setup } from './utils';
+
+const grid = page.getGrid();
+
+const columns: readonly ColumnOrColumnGroup<never>[] = [
+  {
+    name: 'A group name long enough to wrap on several lines',
+    children: [{ key: 'a', name: 'a', width: 80 }]
+  },
+  { key: 'b', name: 'b', width: 80 }
+];
+
+test('headerRowHeight is auto', async () => {
+  await setup({ columns, rows: [], headerRowHeight: 'auto' });
+
+  const groupCell = page.getHeaderCell({ name: /^A group name/ });
+  await expect.poll(() => groupCell.element().clientHeight).toBeGreaterThan(35);
+  const groupRowHeight = groupCell.element().getBoundingClientRect().height;
+
+  // column header rows are sized independently, with the default height as the minimum height
+  await expect.element(grid).toHaveStyle({ gridTemplateRows: `${groupRowHeight}px 35px` });
+
+  // the main header row is offset by the height of the group header row
+  const gridTop = grid.element().getBoundingClientRect().top;
+  const cell = page.getHeaderCell({ name: 'a', exact: true }).element();
+  expect(cell.getBoundingClientRect().top - gridTop).toBe(groupRowHeight);
+});
+
+test('headerRowHeight is a number', async () => {
+  await setup({ columns, rows: [], headerRowHeight: 40 });
+
+  await expect.element(grid).toHaveStyle({ gridTemplateRows: '40px 40px' });
+  expect(grid.element().style.getPropertyValue('--rdg-header-row-height')).toBe('40px');
+});
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, renderTextEditor } from '../../src';
+import type { Column } from '../../src';
+import { getCellsAtRowIndex, validateCellPosition } from './utils';
+
+interface Row {
+  id: number;
+  name: string;
+  version?: number;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name', renderEditCell: renderTextEditor },
+  { key: 'version', name: 'Version' }
+];
+
+const initialRows: readonly Row[] = [
+  { id: 1, name: 'Apple' },
+  { id: 2, name: 'Banana' },
+  { id: 3, name: 'Cherry' }
+];
+
+function rowKeyGetter(row: Row) {
+  return row.id;
+}
+
+interface HistoryTestProps {
+  enableHistory?: boolean;
+  withRowKeyGetter?: boolean;
+  /** Returns the rows the grid is updated with */
+  updateRows?: (rows: Row[], prevRows: readonly Row[]) => readonly Row[];
+}
+
+function acceptRows(rows: Row[]) {
+  return rows;
+}
+
+function HistoryTest({
+  enableHistory = true,
+  withRowKeyGetter = false,
+  updateRows = acceptRows
+}: HistoryTestProps) {
+  const [rows, setRows] = useState(initialRows);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      rowKeyGetter={withRowKeyGetter ? rowKeyGetter : undefined}
+      onRowsChange={(updatedRows) => setRows((rows) => updateRows(updatedRows, rows))}
+      enableHistory={enableHistory}
+      enableRangePaste
+      createPastedRow={() => ({ id: 4, name: '' })}
+    />
+  );
+}
+
+async function editCell(rowIdx: number, value: string) {
+  await userEvent.dblClick(getCellsAtRowIndex(rowIdx).nth(1));
+  await userEvent.fill(page.getByRole('textbox'), value);
+  await userEvent.keyboard('{enter}');
+}
+
+test('should undo and redo edits', async () => {
+  await page.render(<HistoryTest />);
+  await editCell(0, 'Apricot');
+  await editCell(2, 'Coconut');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apricot');
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Coconut');
+
+  await userEvent.click(getCellsAtRowIndex(1).nth(0));
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Cherry');
+  // the active position moves to the restored cell
+  await validateCellPosition(1, 3);
+
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+  await validateCellPosition(1, 1);
+
+  // nothing left to undo
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+
+  await userEvent.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apricot');
+  await userEvent.keyboard('{Control>}y{/Control}');
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Coconut');
+  await validateCellPosition(1, 3);
+});
+
+test('should clear the redo history after a new change', async () => {
+  await page.render(<HistoryTest />);
+  await editCell(0, 'Apricot');
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+
+  await editCell(1, 'Blueberry');
+  await userEvent.keyboard('{Control>}y{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+  await expect.element(getCellsAtRowIndex(1).nth(1)).toHaveTextContent('Blueberry');
+});
+
+test('should remove appended rows when undoing a paste', async () => {
+  await page.render(<HistoryTest />);
+  await userEvent.click(getCellsAtRowIndex(2).nth(1));
+  const clipboardData = new DataTransfer();
+  clipboardData.setData('text/plain', 'Coconut\nDate');
+  document.activeElement!.dispatchEvent(
+    new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true })
+  );
+  await expect.element(page.getRow()).toHaveLength(4);
+
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(page.getRow()).toHaveLength(3);
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Cherry');
+
+  await userEvent.keyboard('{Control>}y{/Control}');
+  await expect.element(page.getRow()).toHaveLength(4);
+  await expect.element(getCellsAtRowIndex(3).nth(1)).toHaveTextContent('Date');
+});
+
+test('should not record changes when enableHistory is not set', async () => {
+  await page.render(<HistoryTest enableHistory={false} />);
+  await editCell(0, 'Apricot');
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apricot');
+});
+
+test('should match the rows with rowKeyGetter', async () => {
+  // the rows are copied so they cannot be matched by reference
+  await page.render(
+    <HistoryTest withRowKeyGetter updateRows={(rows) => rows.map((row) => ({ ...row }))} />
+  );
+  await editCell(0, 'Apricot');
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+  await userEvent.keyboard('{Control>}y{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apricot');
+});
+
+test('should only restore the changed cells', async () => {
+  // the updated rows get a new version, like rows saved to a server
+  await page.render(
+    <HistoryTest
+      withRowKeyGetter
+      updateRows={(rows, prevRows) =>
+        rows.map((row) =>
+          prevRows.includes(row) ? row : { ...row, version: (row.version ?? 0) + 1 }
+        )
+      }
+    />
+  );
+  await editCell(0, 'Apricot');
+  await expect.element(getCellsAtRowIndex(0).nth(2)).toHaveTextContent('1');
+
+  // the version is kept as it was not changed by the edit
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+  await expect.element(getCellsAtRowIndex(0).nth(2)).toHaveTextContent('2');
+  await userEvent.keyboard('{Control>}y{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apricot');
+  await expect.element(getCellsAtRowIndex(0).nth(2)).toHaveTextContent('3');
+});
+
+test('should not record the changes rejected by onRowsChange', async () => {
+  await page.render(
+    <HistoryTest
+      withRowKeyGetter
+      updateRows={(rows, prevRows) =>
+        rows.some((row) => row.name === 'Rejected') ? prevRows : rows
+      }
+    />
+  );
+  await editCell(0, 'Apricot');
+  await editCell(1, 'Rejected');
+  await expect.element(getCellsAtRowIndex(1).nth(1)).toHaveTextContent('Banana');
+
+  // the rejected change is not undone
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+});
+
+test('should skip the changes of rows that no longer exist', async () => {
+  await page.render(
+    <HistoryTest
+      withRowKeyGetter
+      updateRows={(rows) => rows.filter((row) => row.name !== 'Removed')}
+    />
+  );
+  await editCell(0, 'Apricot');
+  await editCell(1, 'Blueberry');
+  await editCell(1, 'Removed');
+  await expect.element(page.getRow()).toHaveLength(2);
+
+  // the edits of the removed row are skipped
+  await userEvent.keyboard('{Control>}z{/Control}');
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Apple');
+  await expect.element(page.getRow()).toHaveLength(2);
+});
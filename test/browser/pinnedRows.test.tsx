@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, renderTextEditor } from '../../src';
+import type { Column } from '../../src';
+import { getCellsAtRowIndex, scrollGrid } from './utils';
+
+interface Row {
+  readonly id: number;
+  readonly name: string;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'id', name: 'ID', sortable: true },
+  { key: 'name', name: 'Name', renderEditCell: renderTextEditor }
+];
+
+const initialRows: readonly Row[] = Array.from({ length: 200 }, (_, id) => ({
+  id,
+  name: `Player ${id}`
+}));
+
+function rowKeyGetter(row: Row) {
+  return row.id;
+}
+
+const onRowsChange = vi.fn();
+
+function PinnedRowsTest() {
+  const [rows, setRows] = useState(initialRows);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      rowKeyGetter={rowKeyGetter}
+      topPinnedRowKeys={[100, 150]}
+      bottomPinnedRowKeys={[50]}
+      enableInternalSorting
+      onRowsChange={(rows) => {
+        onRowsChange(rows);
+        setRows(rows);
+      }}
+    />
+  );
+}
+
+test('pinned rows are rendered at the top and the bottom of the grid', async () => {
+  await page.render(<PinnedRowsTest />);
+
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('100');
+  await expect.element(getCellsAtRowIndex(1).nth(0)).toHaveTextContent('150');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('0');
+  await expect.element(getCellsAtRowIndex(199).nth(0)).toHaveTextContent('50');
+
+  // pinned rows stay visible while the other rows scroll
+  scrollGrid({ top: 2000 });
+  const grid = page.getGrid().element().getBoundingClientRect();
+  await expect
+    .poll(() => getCellsAtRowIndex(0).nth(0).element().getBoundingClientRect().top)
+    .toBe(grid.top + 35);
+  expect(getCellsAtRowIndex(199).nth(0).element().getBoundingClientRect().bottom).toBe(grid.bottom);
+
+  // pinned rows stay pinned when the rows are sorted
+  await userEvent.click(page.getHeaderCell({ name: 'ID' }));
+  await userEvent.click(page.getHeaderCell({ name: 'ID' }));
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('100');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('199');
+});
+
+test('pinned rows can be edited', async () => {
+  await page.render(<PinnedRowsTest />);
+
+  await userEvent.dblClick(getCellsAtRowIndex(0).nth(1));
+  await userEvent.keyboard('{Control>}a{/Control}Me{Enter}');
+  expect(onRowsChange.mock.lastCall![0][100]).toStrictEqual({ id: 100, name: 'Me' });
+});
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, moveRows, RowDragColumn, SelectColumn } from '../../src';
+import type { Column } from '../../src';
+import { getCellsAtRowIndex } from './utils';
+
+interface Row {
+  readonly id: number;
+}
+
+const columns: readonly Column<Row>[] = [SelectColumn, RowDragColumn, { key: 'id', name: 'ID' }];
+
+const initialRows: readonly Row[] = Array.from({ length: 5 }, (_, id) => ({ id }));
+
+function rowKeyGetter(row: Row) {
+  return row.id;
+}
+
+const onRowsReorder = vi.fn();
+
+function RowReorderTest() {
+  const [rows, setRows] = useState(initialRows);
+  const [selectedRows, setSelectedRows] = useState((): ReadonlySet<number> => new Set());
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      rowKeyGetter={rowKeyGetter}
+      selectedRows={selectedRows}
+      onSelectedRowsChange={setSelectedRows}
+      onRowsReorder={(fromIndexes, toIndex) => {
+        onRowsReorder(fromIndexes, toIndex);
+        setRows((rows) => moveRows(rows, fromIndexes, toIndex));
+      }}
+    />
+  );
+}
+
+function getIds() {
+  return page
+    .getRow()
+    .elements()
+    .map((row) => row.lastElementChild!.textContent);
+}
+
+test('moveRows', () => {
+  expect(moveRows([0, 1, 2, 3, 4], [1], 4)).toStrictEqual([0, 2, 3, 1, 4]);
+  expect(moveRows([0, 1, 2, 3, 4], [3, 4], 0)).toStrictEqual([3, 4, 0, 1, 2]);
+  expect(moveRows([0, 1, 2, 3, 4], [0, 2], 5)).toStrictEqual([1, 3, 4, 0, 2]);
+});
+
+test('rows are reordered by dragging the drag handle', async () => {
+  await page.render(<RowReorderTest />);
+
+  // the rows are dropped before the row when the pointer is over its upper half
+  await userEvent.dragAndDrop(getCellsAtRowIndex(0).nth(1), getCellsAtRowIndex(3).nth(2), {
+    targetPosition: { x: 10, y: 5 }
+  });
+  expect(onRowsReorder).toHaveBeenLastCalledWith([0], 3);
+  await expect.poll(getIds).toStrictEqual(['1', '2', '0', '3', '4']);
+
+  // dragging a selected row moves all the selected rows
+  await userEvent.click(page.getByRole('checkbox', { name: 'Select', exact: true }).nth(0));
+  await userEvent.click(page.getByRole('checkbox', { name: 'Select', exact: true }).nth(2));
+  await userEvent.dragAndDrop(getCellsAtRowIndex(2).nth(1), getCellsAtRowIndex(4).nth(2), {
+    targetPosition: { x: 10, y: 30 }
+  });
+  expect(onRowsReorder).toHaveBeenLastCalledWith([0, 2], 5);
+  await expect.poll(getIds).toStrictEqual(['2', '3', '4', '1', '0']);
+});
+
+test('rows are moved with Alt+ArrowUp and Alt+ArrowDown', async () => {
+  await page.render(<RowReorderTest />);
+
+  await userEvent.click(getCellsAtRowIndex(1).nth(2));
+  await userEvent.keyboard('{Alt>}{ArrowDown}{/Alt}');
+  expect(onRowsReorder).toHaveBeenLastCalledWith([1], 3);
+  await expect.poll(getIds).toStrictEqual(['0', '2', '1', '3', '4']);
+  // the moved row stays active
+  await expect.element(getCellsAtRowIndex(2).nth(2)).toHaveAttribute('aria-selected', 'true');
+
+  await userEvent.keyboard('{Alt>}{ArrowUp}{ArrowUp}{/Alt}');
+  await expect.poll(getIds).toStrictEqual(['1', '0', '2', '3', '4']);
+
+  // the first row cannot be moved up
+  onRowsReorder.mockClear();
+  await userEvent.keyboard('{Alt>}{ArrowUp}{/Alt}');
+  expect(onRowsReorder).not.toHaveBeenCalled();
+});
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, renderTextEditor } from '../../src';
+import type { CellRange, Column, FillEvent } from '../../src';
+import { getCellsAtRowIndex } from './utils';
+
+interface Row {
+  id: number;
+  name: string;
+  city: string;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name', renderEditCell: renderTextEditor },
+  { key: 'city', name: 'City', renderEditCell: renderTextEditor }
+];
+
+const initialRows: readonly Row[] = [
+  { id: 1, name: 'Alice', city: 'Paris' },
+  { id: 2, name: 'Bob', city: 'Rome' },
+  { id: 3, name: 'Carol', city: 'Oslo' }
+];
+
+const onRowsChangeSpy = vi.fn();
+
+function rowKeyGetter(row: Row) {
+  return row.id;
+}
+
+function onFill({ columnKey, targetRow, value }: FillEvent<Row>): Row {
+  return { ...targetRow, [columnKey]: value };
+}
+
+function RowsChangeDataTest({
+  columns,
+  enableRangeClear
+}: {
+  columns: readonly Column<Row>[];
+  enableRangeClear?: boolean;
+}) {
+  const [rows, setRows] = useState(initialRows);
+  const [selectedCellRange, setSelectedCellRange] = useState<CellRange | null>(null);
+
+  return (
+    <DataGrid
+      columns={columns}
+      rows={rows}
+      rowKeyGetter={rowKeyGetter}
+      onRowsChange={(rows, data) => {
+        onRowsChangeSpy(data);
+        setRows(rows);
+      }}
+      onFill={onFill}
+      selectedCellRange={selectedCellRange}
+      onSelectedCellRangeChange={setSelectedCellRange}
+      enableHistory
+      enableRangeClear={enableRangeClear}
+    />
+  );
+}
+
+function setup(testColumns = columns, enableRangeClear = false) {
+  onRowsChangeSpy.mockClear();
+  return page.render(
+    <RowsChangeDataTest columns={testColumns} enableRangeClear={enableRangeClear} />
+  );
+}
+
+test('should describe edited cells', async () => {
+  await setup();
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(1));
+  await userEvent.fill(page.getByRole('textbox'), 'Bobby');
+  await userEvent.keyboard('{enter}');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith({
+    indexes: [1],
+    column: expect.objectContaining({ key: 'name' }),
+    source: 'edit',
+    changes: [{ rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bob', newValue: 'Bobby' }]
+  });
+
+  await userEvent.keyboard('{Control>}z{/Control}');
+  expect(onRowsChangeSpy).toHaveBeenLastCalledWith({
+    indexes: [1],
+    column: expect.objectContaining({ key: 'name' }),
+    source: 'undo',
+    changes: [{ rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bobby', newValue: 'Bob' }]
+  });
+
+  await userEvent.keyboard('{Control>}y{/Control}');
+  expect(onRowsChangeSpy).toHaveBeenLastCalledWith({
+    indexes: [1],
+    column: expect.objectContaining({ key: 'name' }),
+    source: 'redo',
+    changes: [{ rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bob', newValue: 'Bobby' }]
+  });
+});
+
+test('should describe the changed cells of hidden columns', async () => {
+  await setup([
+    {
+      key: 'name',
+      name: 'Name',
+      renderEditCell: renderTextEditor,
+      // the city follows the name
+      setValue: (row, value) => ({ ...row, name: value as string, city: `${value as string}ville` })
+    },
+    { key: 'city', name: 'City', hidden: true }
+  ]);
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(0));
+  await userEvent.fill(page.getByRole('textbox'), 'Bobby');
+  await userEvent.keyboard('{enter}');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    expect.objectContaining({
+      changes: [
+        { rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bob', newValue: 'Bobby' },
+        { rowIdx: 1, rowKey: 2, columnKey: 'city', oldValue: 'Rome', newValue: 'Bobbyville' }
+      ]
+    })
+  );
+});
+
+test('should not describe the cells of computed columns', async () => {
+  await setup([
+    ...columns,
+    // a new object is returned each time
+    {
+      key: 'place',
+      name: 'Place',
+      getValue: (row) => ({ name: row.name, city: row.city }),
+      formatValue(value) {
+        const { name, city } = value as Row;
+        return `${name} in ${city}`;
+      }
+    }
+  ]);
+  await userEvent.dblClick(getCellsAtRowIndex(1).nth(1));
+  await userEvent.fill(page.getByRole('textbox'), 'Bobby');
+  await userEvent.keyboard('{enter}');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    expect.objectContaining({
+      changes: [{ rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bob', newValue: 'Bobby' }]
+    })
+  );
+});
+
+test('should describe filled cells', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(0).nth(2));
+  await userEvent.dblClick(page.getDragHandle());
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith({
+    indexes: [1, 2],
+    column: expect.objectContaining({ key: 'city' }),
+    source: 'fill',
+    changes: [
+      { rowIdx: 1, rowKey: 2, columnKey: 'city', oldValue: 'Rome', newValue: 'Paris' },
+      { rowIdx: 2, rowKey: 3, columnKey: 'city', oldValue: 'Oslo', newValue: 'Paris' }
+    ]
+  });
+});
+
+test('should clear the selected cell range on delete', async () => {
+  await setup(columns, true);
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Shift>}{arrowdown}{arrowright}{/Shift}{delete}');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith({
+    indexes: [0, 1],
+    column: expect.objectContaining({ key: 'id' }),
+    source: 'clear',
+    // the id column is not editable
+    changes: [
+      { rowIdx: 0, rowKey: 1, columnKey: 'name', oldValue: 'Alice', newValue: '' },
+      { rowIdx: 1, rowKey: 2, columnKey: 'name', oldValue: 'Bob', newValue: '' }
+    ]
+  });
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('');
+  await expect.element(getCellsAtRowIndex(2).nth(1)).toHaveTextContent('Carol');
+});
+
+test('should not clear the selected cell range when enableRangeClear is not set', async () => {
+  await setup();
+  await userEvent.click(getCellsAtRowIndex(0).nth(1));
+  await userEvent.keyboard('{Shift>}{arrowdown}{/Shift}{delete}');
+  expect(onRowsChangeSpy).not.toHaveBeenCalled();
+  await expect.element(getCellsAtRowIndex(0).nth(1)).toHaveTextContent('Alice');
+});
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import { DataGrid, ROWS_DRAG_MIME_TYPE, RowDragColumn } from '../../src';
+import type { Column, RowsDragData, RowsDropEvent } from '../../src';
+
+interface Row {
+  readonly id: number;
+}
+
+const columns: readonly Column<Row>[] = [RowDragColumn, { key: 'id', name: 'ID' }];
+
+function rowKeyGetter(row: Row) {
+  return row.id;
+}
+
+const onRowsDrop = vi.fn();
+
+function isRow(row: unknown): row is Row {
+  return typeof row === 'object' && row !== null && 'id' in row && typeof row.id === 'number';
+}
+
+function RowsDropTest({ canDropRows }: { canDropRows?: (toIndex: number) => boolean }) {
+  const [available, setAvailable] = useState((): readonly Row[] => [{ id: 1 }, { id: 2 }]);
+  const [assigned, setAssigned] = useState((): readonly Row[] => [{ id: 3 }]);
+
+  function handleRowsDrop(event: RowsDropEvent) {
+    onRowsDrop(event);
+    const droppedRows = event.data.rows.filter(isRow);
+    const keys = new Set(droppedRows.map((row) => row.id));
+    setAvailable((rows) => rows.filter((row) => !keys.has(row.id)));
+    setAssigned((rows) => rows.toSpliced(event.toIndex, 0, ...droppedRows));
+  }
+
+  function handleDragStart(event: React.DragEvent) {
+    const data: RowsDragData<Row, number> = { rowKeys: [4], rows: [{ id: 4 }] };
+    event.dataTransfer.setData(ROWS_DRAG_MIME_TYPE, JSON.stringify(data));
+  }
+
+  return (
+    <>
+      <DataGrid
+        aria-label="Available"
+        columns={columns}
+        rows={available}
+        rowKeyGetter={rowKeyGetter}
+        enableRowsDragOut
+      />
+      <DataGrid
+        aria-label="Assigned"
+        columns={columns}
+        rows={assigned}
+        rowKeyGetter={rowKeyGetter}
+        onRowsDrop={handleRowsDrop}
+        canDropRows={canDropRows}
+      />
+      <div draggable onDragStart={handleDragStart}>
+        External row
+      </div>
+    </>
+  );
+}
+
+const availableGrid = page.getByRole('grid', { name: 'Available' });
+const assignedGrid = page.getByRole('grid', { name: 'Assigned' });
+
+function getIds(grid: typeof availableGrid) {
+  return grid
+    .getRow()
+    .elements()
+    .map((row) => row.lastElementChild!.textContent);
+}
+
+test('rows are dropped from another grid', async () => {
+  await page.render(<RowsDropTest />);
+
+  await userEvent.dragAndDrop(
+    availableGrid.getRow().nth(0).getCell().nth(0),
+    assignedGrid.getRow().nth(0).getCell().nth(1),
+    { targetPosition: { x: 10, y: 5 } }
+  );
+  expect(onRowsDrop).toHaveBeenLastCalledWith({
+    data: { rowKeys: [1], rows: [{ id: 1 }] },
+    toIndex: 0
+  });
+  await expect.poll(() => getIds(availableGrid)).toStrictEqual(['2']);
+  await expect.poll(() => getIds(assignedGrid)).toStrictEqual(['1', '3']);
+});
+
+test('rows are dropped from an element setting the rows data', async () => {
+  await page.render(<RowsDropTest />);
+
+  await userEvent.dragAndDrop(
+    page.getByText('External row'),
+    assignedGrid.getRow().nth(0).getCell().nth(1),
+    { targetPosition: { x: 10, y: 30 } }
+  );
+  expect(onRowsDrop).toHaveBeenLastCalledWith({
+    data: { rowKeys: [4], rows: [{ id: 4 }] },
+    toIndex: 1
+  });
+  await expect.poll(() => getIds(assignedGrid)).toStrictEqual(['3', '4']);
+});
+
+test('canDropRows prevents dropping the rows', async () => {
+  await page.render(<RowsDropTest canDropRows={(toIndex) => toIndex > 0} />);
+  onRowsDrop.mockClear();
+
+  await userEvent.dragAndDrop(
+    availableGrid.getRow().nth(0).getCell().nth(0),
+    assignedGrid.getRow().nth(0).getCell().nth(1),
+    { targetPosition: { x: 10, y: 5 } }
+  );
+  expect(onRowsDrop).not.toHaveBeenCalled();
+  await expect.poll(() => getIds(assignedGrid)).toStrictEqual(['3']);
+});
@@ -0,0 +1,97 @@
+import { createRef } from 'react';
+import { page, userEvent } from 'vitest/browser';
+
+import type { Column, DataGridHandle } from '../../src';
+import { getCellsAtRowIndex, setup, validateCellPosition } from './utils';
+
+interface Row {
+  id: number;
+  name: string;
+}
+
+const columns: readonly Column<Row>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name' }
+];
+
+const rows: readonly Row[] = Array.from({ length: 1000 }, (_, id) => ({
+  id,
+  name: id === 10 || id === 900 ? `Banana ${id}` : `Row ${id}`
+}));
+
+const marks = page.getBySelector('.rdg-search-match');
+
+const ref = createRef<DataGridHandle>();
+const onOpenSearchSpy = vi.fn();
+
+function setupSearch(searchText: string, onOpenSearch?: () => void) {
+  onOpenSearchSpy.mockClear();
+  return setup({ ref, columns, rows, searchText, onOpenSearch });
+}
+
+test('should highlight the matching text', async () => {
+  await setupSearch('AN');
+  await expect.element(marks).toHaveLength(2);
+  await expect.element(marks.nth(0)).toHaveTextContent('an');
+  await expect.element(marks.nth(1)).toHaveTextContent('an');
+  await expect.element(getCellsAtRowIndex(10).nth(1)).toHaveTextContent('Banana 10');
+});
+
+test('should not highlight without search text', async () => {
+  await setupSearch('');
+  await expect.element(marks).not.toBeInTheDocument();
+});
+
+test('findNext and findPrevious', async () => {
+  await setupSearch('banana');
+  expect(ref.current!.findNext()).toBe(true);
+  await validateCellPosition(1, 11);
+
+  // the matching cell is scrolled into view
+  expect(ref.current!.findNext()).toBe(true);
+  await validateCellPosition(1, 901);
+  await expect.element(getCellsAtRowIndex(900).nth(1)).toBeVisible();
+
+  // the search wraps around
+  expect(ref.current!.findNext()).toBe(true);
+  await validateCellPosition(1, 11);
+  expect(ref.current!.findPrevious()).toBe(true);
+  await validateCellPosition(1, 901);
+});
+
+test('should match all the columns', async () => {
+  await setupSearch('999');
+  expect(ref.current!.findNext()).toBe(true);
+  await validateCellPosition(0, 1000);
+  expect(ref.current!.findNext()).toBe(true);
+  await validateCellPosition(1, 1000);
+});
+
+test('should return false when no cell matches', async () => {
+  await setupSearch('cherry');
+  expect(ref.current!.findNext()).toBe(false);
+  expect(ref.current!.findPrevious()).toBe(false);
+  await expect.element(page.getActiveCell()).not.toBeInTheDocument();
+});
+
+test('should support search shortcuts when onOpenSearch is set', async () => {
+  await setupSearch('banana', onOpenSearchSpy);
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{Control>}f{/Control}');
+  expect(onOpenSearchSpy).toHaveBeenCalledOnce();
+
+  await userEvent.keyboard('{F3}');
+  await validateCellPosition(1, 11);
+  await expect.element(getCellsAtRowIndex(10).nth(1)).toHaveFocus();
+  await userEvent.keyboard('{F3}');
+  await validateCellPosition(1, 901);
+  await userEvent.keyboard('{Shift>}{F3}{/Shift}');
+  await validateCellPosition(1, 11);
+});
+
+test('should not support search shortcuts when onOpenSearch is not set', async () => {
+  await setupSearch('banana');
+  await userEvent.click(getCellsAtRowIndex(0).nth(0));
+  await userEvent.keyboard('{F3}');
+  await validateCellPosition(0, 1);
+});
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { page, userEvent } from 'vitest/browser';
 
-import { DataGrid } from '../../src';
+import { DataGrid, renderTextEditor, sortRows } from '../../src';
+import type { DataGridProps } from '../../src';
 import type { Column, SortColumn } from '../../src/types';
+import { getCellsAtRowIndex } from './utils';
 
 const columns: readonly Column<never>[] = [
   { key: 'colA', name: 'colA' },
@@ -11,7 +13,9 @@ const columns: readonly Column<never>[] = [
   { key: 'colD', name: 'colD', sortable: false }
 ];
 
-function TestGrid() {
+function TestGrid(
+  props: Pick<DataGridProps<never>, 'defaultColumnOptions' | 'multiSortMode' | 'maxSortColumns'>
+) {
   const [sortColumns, setSortColumns] = useState<readonly SortColumn[]>([]);
 
   return (
@@ -22,14 +26,15 @@ function TestGrid() {
         defaultColumnOptions={{ sortable: true }}
         sortColumns={sortColumns}
         onSortColumnsChange={setSortColumns}
+        {...props}
       />
       <div data-testid="sortColumnsValue">{JSON.stringify(sortColumns)}</div>
     </>
   );
 }
 
-function setup() {
-  return page.render(<TestGrid />);
+function setup(props: React.ComponentProps<typeof TestGrid> = {}) {
+  return page.render(<TestGrid {...props} />);
 }
 
 function testSortColumns(expectedValue: readonly SortColumn[]) {
@@ -127,3 +132,200 @@ test('multi column sort with keyboard', async () => {
     { columnKey: 'colB', direction: 'DESC' }
   ]);
 });
+
+test('should use the sort cycle of the column', async () => {
+  await setup({ defaultColumnOptions: { sortable: true, sortCycle: ['ASC', 'DESC'] } });
+  const headerCell = page.getHeaderCell({ name: 'colA' });
+  await userEvent.click(headerCell);
+  await testSortColumns([{ columnKey: 'colA', direction: 'ASC' }]);
+  await userEvent.click(headerCell);
+  await testSortColumns([{ columnKey: 'colA', direction: 'DESC' }]);
+  // there is no unsorted state in the cycle
+  await userEvent.click(headerCell);
+  await testSortColumns([{ columnKey: 'colA', direction: 'ASC' }]);
+});
+
+test('sortDescendingFirst takes precedence over the default sort cycle', async () => {
+  await setup({ defaultColumnOptions: { sortable: true, sortCycle: ['ASC', 'DESC'] } });
+  const headerCell = page.getHeaderCell({ name: 'colB' });
+  await userEvent.click(headerCell);
+  await testSortColumns([{ columnKey: 'colB', direction: 'DESC' }]);
+  await userEvent.click(headerCell);
+  await testSortColumns([{ columnKey: 'colB', direction: 'ASC' }]);
+});
+
+test('should sort multiple columns without a modifier if multiSortMode is always', async () => {
+  await setup({ multiSortMode: 'always' });
+  await userEvent.click(page.getHeaderCell({ name: 'colA' }));
+  await userEvent.click(page.getHeaderCell({ name: 'colC' }));
+  await testSortColumns([
+    { columnKey: 'colA', direction: 'ASC' },
+    { columnKey: 'colC', direction: 'ASC' }
+  ]);
+  await userEvent.click(page.getHeaderCell({ name: 'colA', exact: false }));
+  await testSortColumns([
+    { columnKey: 'colA', direction: 'DESC' },
+    { columnKey: 'colC', direction: 'ASC' }
+  ]);
+});
+
+test('should sort a single column if multiSortMode is never', async () => {
+  await setup({ multiSortMode: 'never' });
+  await userEvent.click(page.getHeaderCell({ name: 'colA' }));
+  await userEvent.keyboard('{Control>}');
+  await userEvent.click(page.getHeaderCell({ name: 'colC' }));
+  await testSortColumns([{ columnKey: 'colC', direction: 'ASC' }]);
+});
+
+test('should remove the columns sorted first when maxSortColumns is exceeded', async () => {
+  await setup({ maxSortColumns: 2 });
+  await userEvent.click(page.getHeaderCell({ name: 'colA' }));
+  await userEvent.keyboard('{Control>}');
+  await userEvent.click(page.getHeaderCell({ name: 'colB' }));
+  await userEvent.click(page.getHeaderCell({ name: 'colC' }));
+  await testSortColumns([
+    { columnKey: 'colB', direction: 'DESC' },
+    { columnKey: 'colC', direction: 'ASC' }
+  ]);
+});
+
+test('should not sort any column when maxSortColumns is 0', async () => {
+  await setup({ maxSortColumns: 0 });
+  await userEvent.click(page.getHeaderCell({ name: 'colA' }));
+  await testSortColumns([]);
+  await expect.element(page.getHeaderCell({ name: 'colA' })).not.toHaveAttribute('aria-sort');
+});
+
+test('should limit the controlled sort columns exceeding maxSortColumns', async () => {
+  await page.render(
+    <DataGrid
+      columns={columns}
+      rows={[]}
+      defaultColumnOptions={{ sortable: true }}
+      sortColumns={[
+        { columnKey: 'colA', direction: 'ASC' },
+        { columnKey: 'colB', direction: 'DESC' },
+        { columnKey: 'colC', direction: 'ASC' }
+      ]}
+      maxSortColumns={2}
+    />
+  );
+  // the priorities of the last two columns are displayed
+  await expect.element(page.getHeaderCell({ name: 'colA' })).toHaveTextContent(/^colA$/);
+  await expect.element(page.getHeaderCell({ name: 'colB', exact: false })).toHaveTextContent('1');
+  await expect.element(page.getHeaderCell({ name: 'colC', exact: false })).toHaveTextContent('2');
+});
+
+interface SortRow {
+  id: number;
+  name: string | null;
+  group: string;
+  priority: 'low' | 'high';
+}
+
+const sortRowsData: readonly SortRow[] = [
+  { id: 0, name: 'Item 10', group: 'b', priority: 'low' },
+  { id: 1, name: null, group: 'a', priority: 'high' },
+  { id: 2, name: 'item 2', group: 'b', priority: 'high' },
+  { id: 3, name: 'Item 1', group: 'a', priority: 'low' },
+  { id: 4, name: 'Item 2', group: 'a', priority: 'high' }
+];
+
+const sortRowsColumns: readonly Column<SortRow>[] = [
+  { key: 'id', name: 'ID' },
+  { key: 'name', name: 'Name', sortable: true, renderEditCell: renderTextEditor },
+  { key: 'group', name: 'Group', sortable: true },
+  {
+    key: 'priority',
+    name: 'Priority',
+    sortable: true,
+    comparator: (a, b) => Number(a.priority === 'high') - Number(b.priority === 'high')
+  }
+];
+
+function getIds(rows: readonly SortRow[]) {
+  return rows.map((row) => row.id);
+}
+
+test('sortRows should use natural ordering and sort empty values last', () => {
+  expect(
+    getIds(sortRows(sortRowsData, [{ columnKey: 'name', direction: 'ASC' }], sortRowsColumns))
+  ).toStrictEqual([3, 2, 4, 0, 1]);
+  expect(
+    getIds(sortRows(sortRowsData, [{ columnKey: 'name', direction: 'DESC' }], sortRowsColumns))
+  ).toStrictEqual([0, 4, 2, 3, 1]);
+});
+
+test('sortRows should compare text with the collator', () => {
+  const collator = new Intl.Collator('en');
+  expect(
+    getIds(
+      sortRows(sortRowsData, [{ columnKey: 'name', direction: 'ASC' }], sortRowsColumns, collator)
+    )
+  ).toStrictEqual([3, 0, 2, 4, 1]);
+});
+
+test('sortRows should sort by multiple columns in order of priority', () => {
+  expect(
+    getIds(
+      sortRows(
+        sortRowsData,
+        [
+          { columnKey: 'group', direction: 'ASC' },
+          { columnKey: 'priority', direction: 'DESC' }
+        ],
+        sortRowsColumns
+      )
+    )
+  ).toStrictEqual([1, 4, 3, 2, 0]);
+  // rows with equal values keep their order
+  expect(
+    getIds(sortRows(sortRowsData, [{ columnKey: 'group', direction: 'DESC' }], sortRowsColumns))
+  ).toStrictEqual([0, 2, 1, 3, 4]);
+  expect(sortRows(sortRowsData, [], sortRowsColumns)).toStrictEqual(sortRowsData);
+});
+
+const onRowsChangeSpy = vi.fn();
+
+function InternalSortingTest() {
+  const [rows, setRows] = useState(sortRowsData);
+  const [sortColumns, setSortColumns] = useState<readonly SortColumn[]>([]);
+
+  return (
+    <DataGrid
+      columns={sortRowsColumns}
+      rows={rows}
+      onRowsChange={(rows, data) => {
+        onRowsChangeSpy(rows, data);
+        setRows(rows);
+      }}
+      sortColumns={sortColumns}
+      onSortColumnsChange={setSortColumns}
+      enableInternalSorting
+    />
+  );
+}
+
+test('should sort the rows internally if enableInternalSorting is set', async () => {
+  onRowsChangeSpy.mockClear();
+  await page.render(<InternalSortingTest />);
+  await userEvent.click(page.getHeaderCell({ name: 'Name' }));
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('3');
+  await expect.element(getCellsAtRowIndex(4).nth(0)).toHaveTextContent('1');
+
+  // the updated rows are in the order of the rows prop
+  await userEvent.dblClick(getCellsAtRowIndex(0).nth(1));
+  await userEvent.keyboard('{Control>}a{/Control}Item 3{enter}');
+  expect(onRowsChangeSpy).toHaveBeenCalledExactlyOnceWith(
+    sortRowsData.with(3, { ...sortRowsData[3], name: 'Item 3' }),
+    expect.objectContaining({
+      indexes: [3],
+      changes: [
+        { rowIdx: 3, rowKey: undefined, columnKey: 'name', oldValue: 'Item 1', newValue: 'Item 3' }
+      ]
+    })
+  );
+  // the updated row is sorted again
+  await expect.element(getCellsAtRowIndex(0).nth(0)).toHaveTextContent('2');
+  await expect.element(getCellsAtRowIndex(2).nth(0)).toHaveTextContent('3');
+});
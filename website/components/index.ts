@@ -1,3 +1,2 @@
 export * from './CellExpanderFormatter';
 export * from './ChildRowDeleteButton';
-export * from './DraggableRowRenderer';
@@ -211,8 +211,8 @@ function AllFeatures() {
     readonly column: CalculatedColumn<Row>;
   } | null>(null);
 
-  function handleFill({ columnKey, sourceRow, targetRow }: FillEvent<Row>): Row {
-    return { ...targetRow, [columnKey]: sourceRow[columnKey as keyof Row] };
+  function handleFill({ columnKey, targetRow, value }: FillEvent<Row>): Row {
+    return { ...targetRow, [columnKey]: value };
   }
 
   function handleCellPaste(
@@ -1,8 +1,7 @@
-import { useCallback, useState } from 'react';
+import { useState } from 'react';
 import { createFileRoute } from '@tanstack/react-router';
 
-import { DataGrid, renderTextEditor, type Column, type RenderRowProps } from '../../src';
-import { DraggableRowRenderer } from '../components';
+import { DataGrid, moveRows, renderTextEditor, RowDragColumn, type Column } from '../../src';
 import { useDirection } from '../directionContext';
 
 export const Route = createFileRoute('/RowsReordering')({
@@ -34,6 +33,7 @@ function createRows(): readonly Row[] {
 }
 
 const columns: readonly Column<Row>[] = [
+  RowDragColumn,
   {
     key: 'id',
     name: 'ID',
@@ -62,22 +62,13 @@ function RowsReordering() {
   const direction = useDirection();
   const [rows, setRows] = useState(createRows);
 
-  const renderRow = useCallback((key: React.Key, props: RenderRowProps<Row>) => {
-    function onRowReorder(fromIndex: number, toIndex: number) {
-      function reorderRows() {
-        setRows((rows) => {
-          const row = rows[fromIndex];
-          const newRows = rows.toSpliced(fromIndex, 1);
-          newRows.splice(toIndex, 0, row);
-          return newRows;
-        });
-      }
-
-      document.startViewTransition(reorderRows);
+  function onRowsReorder(fromIndexes: readonly number[], toIndex: number) {
+    function reorderRows() {
+      setRows((rows) => moveRows(rows, fromIndexes, toIndex));
     }
 
-    return <DraggableRowRenderer<Row, unknown> key={key} {...props} onRowReorder={onRowReorder} />;
-  }, []);
+    document.startViewTransition(reorderRows);
+  }
 
   return (
     <DataGrid
@@ -85,7 +76,7 @@ function RowsReordering() {
       columns={columns}
       rows={rows}
       onRowsChange={setRows}
-      renderers={{ renderRow }}
+      onRowsReorder={onRowsReorder}
       direction={direction}
     />
   );